@@ -0,0 +1,164 @@
+import clsx from 'clsx';
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+import { useState } from 'react';
+
+import {
+  FORWARDED_HEADERS,
+  type StreamingOptions,
+  type UpstreamHeaders,
+} from '../services/byte-source';
+import type { ReportOptions } from '../services/mediainfo';
+
+const FIELD_PREFIX = 'upstream-header:';
+
+const MiB = 1024 * 1024;
+const STREAMING_CAPS = [16, 64, 256, 1024];
+const DEFAULT_STREAMING_CAP = 64;
+// Seconds, 0 = no timeout
+const TIMEOUTS = [0, 30, 60, 300, 900];
+
+const PLACEHOLDERS: Record<(typeof FORWARDED_HEADERS)[number], string> = {
+  Authorization: 'Bearer eyJhbGciOi... or Basic dXNlcjpwYXNz',
+  Cookie: 'session=abc123; signed=...',
+  Referer: 'https://example.com/player',
+};
+
+// The get* helpers read the fields below back out of the submitted form
+export const getUpstreamHeaders = (formData: FormData): UpstreamHeaders => {
+  const headers: UpstreamHeaders = {};
+  for (const name of FORWARDED_HEADERS) {
+    const value = formData.get(`${FIELD_PREFIX}${name}`);
+    if (typeof value === 'string' && value.trim()) headers[name] = value.trim();
+  }
+  return headers;
+};
+
+// Null unless the user opted into streaming servers without Range support
+export const getStreamingOptions = (
+  formData: FormData,
+): StreamingOptions | null => {
+  if (formData.get('streaming') !== 'on') return null;
+  const cap = Number(formData.get('streaming-cap')) || DEFAULT_STREAMING_CAP;
+  return { maxBytes: cap * MiB };
+};
+
+export const getReportOptions = (formData: FormData): ReportOptions => ({
+  full: formData.get('full') === 'on',
+  coverData: formData.get('cover') === 'on',
+});
+
+// Overall limit for one analysis, 0 when there is none
+export const getTimeoutSeconds = (formData: FormData) =>
+  Number(formData.get('timeout')) || 0;
+
+// Collapsible "advanced" inputs. Header values only live in the form: they
+// go to the proxy with each request and nowhere else.
+export function AdvancedOptions({ isFile }: { isFile: boolean }) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="mt-2">
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        aria-expanded={open}
+        className="flex items-center gap-1.5 px-2 text-xs text-gray-500 transition-colors hover:text-gray-300"
+      >
+        <SlidersHorizontal className="h-3 w-3" />
+        Advanced options
+        <ChevronDown
+          className={clsx('h-3 w-3 transition-transform', open && 'rotate-180')}
+        />
+      </button>
+
+      {/* Kept mounted while collapsed so the values are still submitted */}
+      <div
+        hidden={!open}
+        className="mt-2 space-y-2 rounded-xl border border-white/10 bg-[#0F0F0F] p-3"
+      >
+        <div className="flex flex-wrap gap-x-5 gap-y-2 text-xs text-gray-400">
+          <label className="flex items-center gap-2">
+            <input type="checkbox" name="full" className="accent-blue-500" />
+            Full report (all MediaInfo fields)
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" name="cover" className="accent-blue-500" />
+            Extract cover art
+          </label>
+        </div>
+
+        {!isFile && (
+          <>
+            <div className="border-t border-white/5" />
+            {FORWARDED_HEADERS.map((name) => (
+              <label
+                key={name}
+                className="grid items-center gap-2 sm:grid-cols-[110px_1fr]"
+              >
+                <span className="font-mono text-xs text-gray-400">{name}</span>
+                <input
+                  name={`${FIELD_PREFIX}${name}`}
+                  type={name === 'Referer' ? 'url' : 'password'}
+                  placeholder={PLACEHOLDERS[name]}
+                  autoComplete="off"
+                  spellCheck={false}
+                  className="w-full rounded-lg border border-white/10 bg-black/40 px-3 py-1.5 font-mono text-xs text-gray-200 placeholder-gray-600 outline-none focus:border-blue-500/50"
+                />
+              </label>
+            ))}
+            <p className="text-[11px] text-gray-600">
+              Sent only to this URL&apos;s host through the proxy. Not saved in
+              history or shared reports.
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2 border-t border-white/5 pt-3 text-xs text-gray-400">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  name="streaming"
+                  className="accent-blue-500"
+                />
+                Stream servers without Range support, up to
+              </label>
+              <select
+                name="streaming-cap"
+                defaultValue={DEFAULT_STREAMING_CAP}
+                className="rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-gray-200 outline-none"
+              >
+                {STREAMING_CAPS.map((cap) => (
+                  <option key={cap} value={cap}>
+                    {cap >= 1024 ? `${cap / 1024} GB` : `${cap} MB`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-[11px] text-gray-600">
+              Reads the file from the start only. Fields that need data further
+              in, like an MP4 index (moov atom) at the end, may be missing or
+              incomplete.
+            </p>
+          </>
+        )}
+
+        <label className="flex items-center gap-2 border-t border-white/5 pt-3 text-xs text-gray-400">
+          Give up after
+          <select
+            name="timeout"
+            defaultValue={0}
+            className="rounded-md border border-white/10 bg-black/40 px-2 py-1 text-xs text-gray-200 outline-none"
+          >
+            {TIMEOUTS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds === 0
+                  ? 'no timeout'
+                  : seconds < 60
+                    ? `${seconds} seconds`
+                    : `${seconds / 60} min`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+import clsx from 'clsx';
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  ChevronRight,
+  FileText,
+  ListChecks,
+  X,
+} from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { Fragment, useMemo, useRef, useState } from 'react';
+
+import {
+  BATCH_CONCURRENCY,
+  parseUrlList,
+  runWithConcurrency,
+} from '../services/batch';
+import { openUrlSource, proxyFetch } from '../services/byte-source';
+import { getFilenameFromUrl } from '../services/file-type';
+import { createHistoryEntry, recordHistory } from '../services/history';
+import {
+  formatDuration,
+  formatResolution,
+  type MediaSummary,
+  summarizeMedia,
+} from '../services/media-summary';
+import { analyzeInWorker } from '../services/mediainfo-client';
+import { FormatMenu } from './format-menu';
+
+interface BatchRow {
+  url: string;
+  status: 'queued' | 'running' | 'done' | 'error';
+  // Live status while running, the error message on failure
+  message: string;
+  summary: MediaSummary | null;
+  report: string | null;
+}
+
+type SortKey =
+  | 'name'
+  | 'container'
+  | 'duration'
+  | 'resolution'
+  | 'videoCodec'
+  | 'audio'
+  | 'subtitles';
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'File' },
+  { key: 'container', label: 'Container' },
+  { key: 'duration', label: 'Duration' },
+  { key: 'resolution', label: 'Resolution' },
+  { key: 'videoCodec', label: 'Video' },
+  { key: 'audio', label: 'Audio' },
+  { key: 'subtitles', label: 'Subtitles' },
+];
+
+const sortValue = (row: BatchRow, key: SortKey): string | number => {
+  const summary = row.summary;
+  switch (key) {
+    case 'name':
+      return getFilenameFromUrl(row.url) ?? row.url;
+    case 'container':
+      return summary?.container ?? '';
+    case 'duration':
+      return summary?.duration ?? -1;
+    case 'resolution':
+      return (summary?.width ?? 0) * (summary?.height ?? 0);
+    case 'videoCodec':
+      return summary?.videoCodec ?? '';
+    case 'audio':
+      return summary?.audioTracks.length ?? -1;
+    case 'subtitles':
+      return summary?.subtitleLanguages.join(', ') ?? '';
+  }
+};
+
+interface BatchAnalysisProps {
+  format: string;
+  onFormatChange: (format: string) => void;
+}
+
+export function BatchAnalysis({ format, onFormatChange }: BatchAnalysisProps) {
+  const [input, setInput] = useState('');
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [running, setRunning] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; asc: boolean } | null>(null);
+  const listInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const urls = useMemo(() => parseUrlList(input), [input]);
+
+  const updateRow = (index: number, patch: Partial<BatchRow>) =>
+    setRows((prev) =>
+      prev.map((row, i) => (i === index ? { ...row, ...patch } : row)),
+    );
+
+  const runBatch = async () => {
+    if (urls.length === 0 || running) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+    setRunning(true);
+    setExpanded(null);
+    setRows(
+      urls.map((url) => ({
+        url,
+        status: 'queued',
+        message: 'Queued',
+        summary: null,
+        report: null,
+      })),
+    );
+
+    const results = await runWithConcurrency(
+      urls,
+      BATCH_CONCURRENCY,
+      async (url, index) => {
+        const onStatus = (message: string) => updateRow(index, { message });
+        updateRow(index, { status: 'running', message: 'Starting...' });
+        try {
+          const source = await openUrlSource(url, onStatus, proxyFetch, {
+            signal,
+          });
+          const { object, reports } = await analyzeInWorker(
+            source,
+            [format],
+            onStatus,
+            { signal },
+          );
+          void recordHistory(
+            createHistoryEntry(source, url, format, { object, reports }),
+          );
+          updateRow(index, {
+            status: 'done',
+            message: 'Done',
+            summary: summarizeMedia(object),
+            report: reports[format],
+          });
+        } catch (e) {
+          updateRow(index, {
+            status: 'error',
+            message: signal.aborted
+              ? 'Cancelled'
+              : e instanceof Error
+                ? e.message
+                : 'Unknown error occurred',
+          });
+        }
+      },
+      signal,
+    );
+    // URLs still queued when the batch was cancelled never started
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        updateRow(index, { status: 'error', message: 'Cancelled' });
+      }
+    });
+
+    if (abortRef.current === controller) abortRef.current = null;
+    setRunning(false);
+  };
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    return [...rows].sort((a, b) => {
+      const av = sortValue(a, sort.key);
+      const bv = sortValue(b, sort.key);
+      const order =
+        typeof av === 'number' && typeof bv === 'number'
+          ? av - bv
+          : String(av).localeCompare(String(bv));
+      return sort.asc ? order : -order;
+    });
+  }, [rows, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) =>
+      prev?.key === key ? { key, asc: !prev.asc } : { key, asc: true },
+    );
+
+  const doneCount = rows.filter((row) => row.status === 'done').length;
+  const errorCount = rows.filter((row) => row.status === 'error').length;
+
+  return (
+    <div className="w-full">
+      <div className="relative rounded-2xl border border-white/10 bg-[#0A0A0A] p-2 shadow-2xl ring-1 ring-white/5 transition-all focus-within:ring-blue-500/50">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          rows={6}
+          placeholder={
+            'One media URL per line, or upload a .txt/.csv list\nhttps://example.com/S01E01.mkv\nhttps://example.com/S01E02.mkv'
+          }
+          className="w-full resize-y bg-transparent px-4 py-3 font-mono text-xs text-gray-200 placeholder-gray-600 outline-none"
+        />
+        <div className="flex items-center justify-between gap-2 border-t border-white/5 px-2 pt-2">
+          <div className="flex items-center gap-3">
+            <div className="-ml-2 sm:border-r sm:border-white/10">
+              <FormatMenu value={format} onChange={onFormatChange} />
+            </div>
+            <input
+              ref={listInputRef}
+              type="file"
+              accept=".txt,.csv,text/plain,text/csv"
+              className="hidden"
+              onChange={async (e) => {
+                const list = e.target.files?.[0];
+                e.target.value = '';
+                if (!list) return;
+                const text = await list.text();
+                setInput((prev) =>
+                  [prev.trim(), parseUrlList(text).join('\n')]
+                    .filter(Boolean)
+                    .join('\n'),
+                );
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => listInputRef.current?.click()}
+              className="flex items-center gap-1.5 rounded-md bg-white/5 px-2.5 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+            >
+              <FileText className="h-3 w-3" />
+              <span>Upload list</span>
+            </button>
+            <span className="text-xs text-gray-500">
+              {urls.length} URL{urls.length === 1 ? '' : 's'}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            {running && (
+              <button
+                type="button"
+                onClick={() => abortRef.current?.abort()}
+                className="flex h-10 items-center gap-1.5 rounded-xl px-3 text-sm font-medium text-gray-400 transition-colors hover:bg-white/5 hover:text-white"
+              >
+                <X className="h-4 w-4" />
+                <span>Cancel</span>
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={runBatch}
+              disabled={running || urls.length === 0}
+              className="flex h-10 items-center justify-center gap-2 rounded-xl bg-white px-5 text-sm font-semibold text-black shadow-lg shadow-white/5 transition-all hover:bg-gray-200 active:scale-[0.98] disabled:cursor-not-allowed disabled:opacity-70"
+            >
+              {running ? (
+                <span className="h-4 w-4 animate-spin rounded-full border-2 border-black/30 border-t-black" />
+              ) : (
+                <>
+                  <ListChecks className="h-4 w-4" />
+                  <span>Analyze all</span>
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <AnimatePresence>
+        {rows.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4, ease: [0.23, 1, 0.32, 1] }}
+            className="mt-8 overflow-hidden rounded-xl border border-white/10 bg-[#0F0F0F] shadow-2xl"
+          >
+            <div className="flex items-center justify-between border-b border-white/5 bg-[#141414] px-4 py-2.5 font-mono text-[11px] text-gray-500">
+              <span>
+                {doneCount}/{rows.length} analyzed
+                {errorCount > 0 && (
+                  <span className="text-red-400"> · {errorCount} failed</span>
+                )}
+              </span>
+              <span className="text-[10px] font-bold tracking-wider text-gray-600 uppercase">
+                {format}
+              </span>
+            </div>
+
+            <div className="max-h-[60vh] overflow-auto">
+              <table className="w-full text-left text-xs">
+                <thead className="sticky top-0 bg-[#0F0F0F] text-gray-500">
+                  <tr>
+                    <th className="w-8" />
+                    {columns.map((column) => (
+                      <th
+                        key={column.key}
+                        onClick={() => toggleSort(column.key)}
+                        className="cursor-pointer px-3 py-2 font-medium whitespace-nowrap select-none hover:text-gray-300"
+                      >
+                        <span className="inline-flex items-center gap-1">
+                          {column.label}
+                          {sort?.key === column.key &&
+                            (sort.asc ? (
+                              <ArrowUp className="h-3 w-3" />
+                            ) : (
+                              <ArrowDown className="h-3 w-3" />
+                            ))}
+                        </span>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/5 text-gray-300">
+                  {sortedRows.map((row) => {
+                    const isOpen = expanded === row.url;
+                    const summary = row.summary;
+                    return (
+                      <Fragment key={row.url}>
+                        <tr
+                          onClick={() =>
+                            row.report && setExpanded(isOpen ? null : row.url)
+                          }
+                          className={clsx(
+                            'transition-colors',
+                            row.report &&
+                              'cursor-pointer hover:bg-white/[0.03]',
+                          )}
+                        >
+                          <td className="pl-3 text-gray-600">
+                            {row.report && (
+                              <ChevronRight
+                                className={clsx(
+                                  'h-3 w-3 transition-transform',
+                                  isOpen && 'rotate-90',
+                                )}
+                              />
+                            )}
+                          </td>
+                          <td
+                            className="max-w-[16rem] truncate px-3 py-2 font-mono"
+                            title={row.url}
+                          >
+                            {getFilenameFromUrl(row.url) ?? row.url}
+                          </td>
+                          {summary ? (
+                            <>
+                              <td className="px-3 py-2">
+                                {summary.container ?? '—'}
+                              </td>
+                              <td className="px-3 py-2 font-mono">
+                                {formatDuration(summary.duration)}
+                              </td>
+                              <td className="px-3 py-2 font-mono">
+                                {formatResolution(summary)}
+                              </td>
+                              <td className="px-3 py-2">
+                                {summary.videoCodec ?? '—'}
+                              </td>
+                              <td className="px-3 py-2">
+                                {summary.audioTracks.join(', ') || '—'}
+                              </td>
+                              <td className="px-3 py-2">
+                                {summary.subtitleLanguages.join(', ') || '—'}
+                              </td>
+                            </>
+                          ) : (
+                            <td
+                              colSpan={6}
+                              className={clsx(
+                                'px-3 py-2',
+                                row.status === 'error'
+                                  ? 'text-red-400'
+                                  : 'text-blue-400',
+                              )}
+                            >
+                              <span className="inline-flex items-center gap-2">
+                                {row.status === 'error' ? (
+                                  <AlertCircle className="h-3 w-3 shrink-0" />
+                                ) : (
+                                  <span className="h-1.5 w-1.5 shrink-0 animate-pulse rounded-full bg-current" />
+                                )}
+                                {row.message}
+                              </span>
+                            </td>
+                          )}
+                        </tr>
+                        {isOpen && row.report && (
+                          <tr>
+                            <td colSpan={columns.length + 1}>
+                              <pre className="max-h-[50vh] overflow-auto bg-[#0A0A0A] p-6 font-mono text-[12px] leading-relaxed text-gray-300">
+                                {row.report}
+                              </pre>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { Download, ImageIcon } from 'lucide-react';
+import type { MediaInfoResult } from 'mediainfo.js';
+import { useMemo, useRef } from 'react';
+
+import {
+  downloadSvg,
+  downloadSvgAsPng,
+  mediaBaseName,
+} from '../services/download';
+import { formatDuration, formatFieldValue } from '../services/media-summary';
+import { getStreamBreakdown, type StreamShare } from '../services/stream-sizes';
+
+// Colours are attributes rather than classes so exports look the same
+const TYPE_COLORS: Record<string, string> = {
+  Video: '#3B82F6',
+  Audio: '#22C55E',
+  Text: '#F59E0B',
+  Image: '#A855F7',
+  Other: '#6B7280',
+};
+const OVERHEAD_COLOR = '#374151';
+const FONT = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+
+const WIDTH = 720;
+const PADDING = 20;
+const ROW_HEIGHT = 34;
+const LABEL_WIDTH = 260;
+const BAR_WIDTH = WIDTH - PADDING * 2 - LABEL_WIDTH;
+
+const formatSize = (bytes: number | null) =>
+  bytes === null ? '—' : formatFieldValue('StreamSize', bytes);
+const formatBitrate = (bitrate: number | null) =>
+  bitrate === null ? '—' : formatFieldValue('BitRate', bitrate);
+
+const percent = (part: number, total: number) =>
+  `${((part / total) * 100).toFixed(1)}%`;
+
+export function BitrateChart({
+  result,
+  name,
+}: {
+  result: MediaInfoResult;
+  name: string;
+}) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const breakdown = useMemo(() => getStreamBreakdown(result), [result]);
+  const { streams, overhead, fileSize } = breakdown;
+
+  if (streams.length === 0) {
+    return <p className="p-4 text-xs text-gray-600">No streams to chart</p>;
+  }
+
+  // Stack in bytes; the file size when known, otherwise what the parts add up to
+  const segments: { key: string; size: number; color: string }[] = [
+    ...streams
+      .filter((stream) => stream.size)
+      .map((stream) => ({
+        key: stream.track,
+        size: stream.size!,
+        color: TYPE_COLORS[stream.type] ?? OVERHEAD_COLOR,
+      })),
+    ...(overhead
+      ? [{ key: 'Overhead', size: overhead, color: OVERHEAD_COLOR }]
+      : []),
+  ];
+  const stackTotal = Math.max(
+    fileSize ?? 0,
+    segments.reduce((sum, segment) => sum + segment.size, 0),
+  );
+  const maxBitrate = Math.max(
+    ...streams.map((stream) => stream.bitrate ?? 0),
+    1,
+  );
+
+  const rows: (StreamShare | null)[] = [...streams, null];
+  const stackTop = PADDING + 24;
+  const rowsTop = stackTop + 48;
+  const summaryTop = rowsTop + rows.length * ROW_HEIGHT + 12;
+  const height = summaryTop + PADDING + 4;
+
+  const baseName = `${mediaBaseName(name)}.bitrates`;
+
+  return (
+    <div className="max-h-[60vh] overflow-auto p-4">
+      <div className="mb-3 flex justify-end gap-2">
+        <button
+          onClick={() =>
+            svgRef.current && downloadSvg(svgRef.current, `${baseName}.svg`)
+          }
+          className="flex items-center gap-1.5 rounded-md bg-white/5 px-2.5 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+        >
+          <Download className="h-3.5 w-3.5" />
+          SVG
+        </button>
+        <button
+          onClick={() =>
+            svgRef.current &&
+            downloadSvgAsPng(svgRef.current, `${baseName}.png`)
+          }
+          className="flex items-center gap-1.5 rounded-md bg-white/5 px-2.5 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+        >
+          <ImageIcon className="h-3.5 w-3.5" />
+          PNG
+        </button>
+      </div>
+
+      <svg
+        ref={svgRef}
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        width="100%"
+        fontFamily={FONT}
+        fontSize={11}
+        className="rounded-lg"
+      >
+        <rect width={WIDTH} height={height} fill="#0F0F0F" />
+        <text x={PADDING} y={PADDING + 6} fill="#9CA3AF" fontWeight="bold">
+          Stream sizes{fileSize !== null && ` of ${formatSize(fileSize)}`}
+        </text>
+
+        {stackTotal > 0 && (
+          <g>
+            <rect
+              x={PADDING}
+              y={stackTop}
+              width={WIDTH - PADDING * 2}
+              height={20}
+              rx={4}
+              fill="#1F2937"
+            />
+            {segments.map((segment, index) => {
+              const scale = (WIDTH - PADDING * 2) / stackTotal;
+              const x =
+                PADDING +
+                segments
+                  .slice(0, index)
+                  .reduce((sum, previous) => sum + previous.size, 0) *
+                  scale;
+              const width = segment.size * scale;
+              return (
+                <rect
+                  key={segment.key}
+                  x={x}
+                  y={stackTop}
+                  width={Math.max(0, width - 1)}
+                  height={20}
+                  fill={segment.color}
+                >
+                  <title>
+                    {segment.key}: {formatSize(segment.size)} (
+                    {percent(segment.size, stackTotal)})
+                  </title>
+                </rect>
+              );
+            })}
+          </g>
+        )}
+        <text x={PADDING} y={rowsTop - 10} fill="#4B5563" fontSize={10}>
+          BITRATE
+        </text>
+
+        {rows.map((stream, index) => {
+          const y = rowsTop + index * ROW_HEIGHT;
+          const color = stream
+            ? (TYPE_COLORS[stream.type] ?? OVERHEAD_COLOR)
+            : OVERHEAD_COLOR;
+          const size = stream ? stream.size : overhead;
+          const barWidth =
+            stream?.bitrate != null
+              ? (stream.bitrate / maxBitrate) * (BAR_WIDTH - 90)
+              : 0;
+          return (
+            <g key={stream?.track ?? 'overhead'}>
+              <rect
+                x={PADDING}
+                y={y}
+                width={10}
+                height={10}
+                rx={2}
+                fill={color}
+              />
+              <text x={PADDING + 18} y={y + 9} fill="#E5E7EB">
+                {stream ? stream.track : 'Container overhead'}
+              </text>
+              <text x={PADDING + 18} y={y + 23} fill="#6B7280" fontSize={10}>
+                {stream?.details ? `${stream.details} · ` : ''}
+                {formatSize(size)}
+                {stream?.estimated && ' (est.)'}
+                {size !== null &&
+                  stackTotal > 0 &&
+                  ` · ${percent(size, stackTotal)}`}
+              </text>
+              {stream && (
+                <>
+                  <rect
+                    x={PADDING + LABEL_WIDTH}
+                    y={y + 2}
+                    width={barWidth}
+                    height={14}
+                    rx={2}
+                    fill={color}
+                    fillOpacity={0.8}
+                  />
+                  <text
+                    x={PADDING + LABEL_WIDTH + barWidth + 6}
+                    y={y + 13}
+                    fill="#9CA3AF"
+                  >
+                    {formatBitrate(stream.bitrate)}
+                  </text>
+                </>
+              )}
+            </g>
+          );
+        })}
+
+        <line
+          x1={PADDING}
+          x2={WIDTH - PADDING}
+          y1={summaryTop - 8}
+          y2={summaryTop - 8}
+          stroke="#1F2937"
+        />
+        <text x={PADDING} y={summaryTop + 8} fill="#9CA3AF">
+          {[
+            `Duration ${
+              breakdown.duration !== null
+                ? formatDuration(breakdown.duration)
+                : '—'
+            }`,
+            `Overall ${formatBitrate(breakdown.overallBitrate)}`,
+            `File ${formatSize(fileSize)}`,
+            `Overhead ${formatSize(overhead)}${
+              overhead !== null && fileSize
+                ? ` (${percent(overhead, fileSize)})`
+                : ''
+            }`,
+          ].join('   ·   ')}
+        </text>
+      </svg>
+    </div>
+  );
+}
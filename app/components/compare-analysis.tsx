@@ -0,0 +1,345 @@
+import clsx from 'clsx';
+import {
+  AlertCircle,
+  Download,
+  FileVideo,
+  FolderOpen,
+  GitCompare,
+  Link,
+  X,
+} from 'lucide-react';
+import type { MediaInfoResult } from 'mediainfo.js';
+import { AnimatePresence, motion } from 'motion/react';
+import { useRef, useState } from 'react';
+
+import {
+  type ByteSource,
+  openFileSource,
+  openUrlSource,
+  proxyFetch,
+} from '../services/byte-source';
+import { downloadText } from '../services/download';
+import { getFilenameFromUrl } from '../services/file-type';
+import { analyzeInWorker } from '../services/mediainfo-client';
+import {
+  diffResults,
+  type FieldChange,
+  hasChanges,
+  type ReportDiff,
+} from '../services/report-diff';
+import { FileDropZone } from './file-drop-zone';
+
+interface SlotValue {
+  url: string;
+  file: File | null;
+}
+
+const emptySlot: SlotValue = { url: '', file: null };
+
+const slotName = (slot: SlotValue) =>
+  slot.file?.name ?? getFilenameFromUrl(slot.url) ?? slot.url;
+
+const CHANGE_STYLES: Record<FieldChange, string> = {
+  same: 'text-gray-400',
+  added: 'bg-green-500/10 text-green-300',
+  removed: 'bg-red-500/10 text-red-300',
+  changed: 'bg-amber-500/10 text-amber-200',
+};
+
+function CompareSlot({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: SlotValue;
+  onChange: (value: SlotValue) => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <FileDropZone
+      onFiles={([file]) => onChange({ ...value, file })}
+      className="flex-1"
+    >
+      <div className="rounded-2xl border border-white/10 bg-[#0A0A0A] p-2 shadow-2xl ring-1 ring-white/5 transition-all focus-within:ring-blue-500/50">
+        <div className="px-3 pt-1 pb-2 text-[10px] font-bold tracking-wider text-gray-600 uppercase">
+          {label}
+        </div>
+        <div className="flex items-center gap-2">
+          {value.file ? (
+            <div className="flex h-11 min-w-0 flex-1 items-center gap-3 px-3 text-sm text-gray-200">
+              <FileVideo className="h-4 w-4 shrink-0 text-blue-400" />
+              <span className="truncate">{value.file.name}</span>
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, file: null })}
+                title="Clear file"
+                className="ml-auto rounded-md p-1 text-gray-500 transition-colors hover:bg-white/10 hover:text-white"
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ) : (
+            <div className="relative flex-1">
+              <Link className="pointer-events-none absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 text-gray-500" />
+              <input
+                type="url"
+                value={value.url}
+                onChange={(e) => onChange({ ...value, url: e.target.value })}
+                placeholder="Media URL or drop a file"
+                autoComplete="off"
+                className="h-11 w-full bg-transparent pr-3 pl-10 text-sm text-gray-200 placeholder-gray-600 outline-none"
+              />
+            </div>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="video/*,audio/*,image/*"
+            className="hidden"
+            onChange={(e) => {
+              const picked = e.target.files?.[0];
+              if (picked) onChange({ ...value, file: picked });
+              e.target.value = '';
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            title="Pick a local file (never uploaded)"
+            className="flex h-11 w-11 shrink-0 items-center justify-center rounded-xl text-gray-500 transition-colors hover:bg-white/5 hover:text-gray-200"
+          >
+            <FolderOpen className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </FileDropZone>
+  );
+}
+
+function DiffTable({ diff }: { diff: ReportDiff }) {
+  const [onlyChanges, setOnlyChanges] = useState(true);
+  const tracks = onlyChanges ? diff.tracks.filter(hasChanges) : diff.tracks;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, ease: [0.23, 1, 0.32, 1] }}
+      className="mt-8 overflow-hidden rounded-xl border border-white/10 bg-[#0F0F0F] shadow-2xl"
+    >
+      <div className="flex items-center justify-between gap-3 border-b border-white/5 bg-[#141414] px-4 py-2.5">
+        <div className="flex items-center gap-3 text-[11px] text-gray-500">
+          <span className="font-mono">
+            {diff.tracks.filter(hasChanges).length} of {diff.tracks.length}{' '}
+            tracks differ
+          </span>
+          <div className="h-4 w-[1px] bg-white/10" />
+          <label className="flex cursor-pointer items-center gap-1.5 select-none">
+            <input
+              type="checkbox"
+              checked={onlyChanges}
+              onChange={(e) => setOnlyChanges(e.target.checked)}
+              className="accent-blue-500"
+            />
+            Only differences
+          </label>
+        </div>
+        <button
+          type="button"
+          onClick={() =>
+            downloadText(
+              JSON.stringify(diff, null, 2),
+              'mediapeek-diff.json',
+              'application/json',
+            )
+          }
+          className="flex items-center gap-1.5 rounded-md bg-white/5 px-2.5 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+        >
+          <Download className="h-3 w-3" />
+          <span>Export JSON</span>
+        </button>
+      </div>
+
+      <div className="max-h-[60vh] overflow-auto">
+        <table className="w-full table-fixed text-left font-mono text-[12px]">
+          <thead className="sticky top-0 bg-[#0F0F0F] text-gray-500">
+            <tr>
+              <th className="w-1/4 px-4 py-2 font-medium">Field</th>
+              <th className="px-4 py-2 font-medium">
+                <span className="block truncate" title={diff.left}>
+                  A · {diff.left}
+                </span>
+              </th>
+              <th className="px-4 py-2 font-medium">
+                <span className="block truncate" title={diff.right}>
+                  B · {diff.right}
+                </span>
+              </th>
+            </tr>
+          </thead>
+          {tracks.map((track) => (
+            <tbody key={track.label} className="border-t border-white/5">
+              <tr>
+                <td
+                  colSpan={3}
+                  className="bg-white/[0.02] px-4 py-2 font-sans text-xs font-semibold text-gray-200"
+                >
+                  {track.label}
+                  {!track.inLeft && (
+                    <span className="ml-2 text-green-400">only in B</span>
+                  )}
+                  {!track.inRight && (
+                    <span className="ml-2 text-red-400">only in A</span>
+                  )}
+                </td>
+              </tr>
+              {track.fields
+                .filter((field) => !onlyChanges || field.change !== 'same')
+                .map((field) => (
+                  <tr key={field.field} className={CHANGE_STYLES[field.change]}>
+                    <td className="truncate px-4 py-1 text-gray-500">
+                      {field.field}
+                    </td>
+                    <td className="px-4 py-1 break-all">{field.left ?? '—'}</td>
+                    <td className="px-4 py-1 break-all">
+                      {field.right ?? '—'}
+                    </td>
+                  </tr>
+                ))}
+            </tbody>
+          ))}
+        </table>
+        {tracks.length === 0 && (
+          <p className="py-8 text-center text-xs text-gray-500">
+            No differences found
+          </p>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+export function CompareAnalysis() {
+  const [left, setLeft] = useState<SlotValue>(emptySlot);
+  const [right, setRight] = useState<SlotValue>(emptySlot);
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [diff, setDiff] = useState<ReportDiff | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isReady = (slot: SlotValue) => Boolean(slot.file || slot.url.trim());
+
+  const analyzeSlot = async (
+    slot: SlotValue,
+    label: string,
+    signal: AbortSignal,
+  ): Promise<MediaInfoResult> => {
+    const onStatus = (message: string) => setStatus(`${label}: ${message}`);
+    const source: ByteSource = slot.file
+      ? await openFileSource(slot.file, onStatus)
+      : await openUrlSource(slot.url.trim(), onStatus, proxyFetch, { signal });
+    const { object } = await analyzeInWorker(source, [], onStatus, { signal });
+    return object;
+  };
+
+  const runCompare = async () => {
+    if (!isReady(left) || !isReady(right) || running) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError(null);
+    setDiff(null);
+    try {
+      const [a, b] = await Promise.all([
+        analyzeSlot(left, 'A', controller.signal),
+        analyzeSlot(right, 'B', controller.signal),
+      ]);
+      setDiff(
+        diffResults(a, b, { left: slotName(left), right: slotName(right) }),
+      );
+      setStatus('');
+    } catch (e) {
+      if (controller.signal.aborted) {
+        setError('Comparison cancelled');
+      } else {
+        setError(e instanceof Error ? e.message : 'Unknown error occurred');
+        // No diff without both sides, so the other one can stop too
+        controller.abort();
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-col gap-3 sm:flex-row">
+        <CompareSlot label="A · Reference" value={left} onChange={setLeft} />
+        <CompareSlot label="B · Candidate" value={right} onChange={setRight} />
+      </div>
+
+      <div className="mt-3 flex justify-center">
+        <button
+          type="button"
+          onClick={runCompare}
+          disabled={running || !isReady(left) || !isReady(right)}
+          className="flex h-12 items-center justify-center gap-2 rounded-xl bg-white px-6 text-sm font-semibold text-black shadow-lg shadow-white/5 transition-all hover:bg-gray-200 active:scale-[0.98] disabled:cursor-not-allowed disabled:opacity-70"
+        >
+          {running ? (
+            <span className="h-4 w-4 animate-spin rounded-full border-2 border-black/30 border-t-black" />
+          ) : (
+            <>
+              <GitCompare className="h-4 w-4" />
+              <span>Compare</span>
+            </>
+          )}
+        </button>
+      </div>
+
+      {/* Status Bar */}
+      <AnimatePresence mode="wait">
+        {(status || error) && !diff && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mt-4 flex justify-center overflow-hidden"
+          >
+            <div
+              className={clsx(
+                'flex items-center gap-3 rounded-full border px-4 py-1.5 text-xs font-medium backdrop-blur-md',
+                error
+                  ? 'border-red-500/20 bg-red-500/10 text-red-400'
+                  : 'border-blue-500/20 bg-blue-500/10 text-blue-400',
+              )}
+            >
+              {error ? (
+                <AlertCircle className="h-3 w-3" />
+              ) : (
+                <div className="h-1.5 w-1.5 animate-pulse rounded-full bg-current" />
+              )}
+              {error || status}
+              {running && (
+                <button
+                  type="button"
+                  onClick={() => abortRef.current?.abort()}
+                  className="-mr-2 flex items-center gap-1 rounded-full px-2 py-0.5 text-blue-300 transition-colors hover:bg-blue-500/20 hover:text-white"
+                >
+                  <X className="h-3 w-3" />
+                  Cancel
+                </button>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>{diff && <DiffTable diff={diff} />}</AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Download, Image as ImageIcon } from 'lucide-react';
+import { useEffect, useMemo } from 'react';
+
+import { coverFilename,type CoverImage } from '../services/cover-art';
+import { downloadBlob } from '../services/download';
+
+interface CoverArtProps {
+  covers: CoverImage[];
+  // Media file name the download names are based on
+  name: string;
+}
+
+export function CoverArt({ covers, name }: CoverArtProps) {
+  const images = useMemo(
+    () =>
+      covers.map((cover) => {
+        const blob = new Blob([cover.data], { type: cover.mimeType });
+        return { cover, blob, url: URL.createObjectURL(blob) };
+      }),
+    [covers],
+  );
+
+  useEffect(
+    () => () => images.forEach(({ url }) => URL.revokeObjectURL(url)),
+    [images],
+  );
+
+  return (
+    <div className="flex gap-3 overflow-x-auto border-b border-white/5 bg-[#111] px-4 py-3">
+      {images.map(({ cover, blob, url }, i) => (
+        <figure
+          key={url}
+          className="relative h-24 w-24 shrink-0 overflow-hidden rounded-lg border border-white/10 bg-black"
+        >
+          <img
+            src={url}
+            alt={cover.label ?? `Cover ${i + 1}`}
+            className="h-full w-full object-cover"
+          />
+          <figcaption className="absolute inset-x-0 bottom-0 flex items-center justify-between gap-1 bg-black/70 px-1.5 py-1 text-[10px] text-gray-300">
+            <span className="flex min-w-0 items-center gap-1 truncate">
+              <ImageIcon className="h-2.5 w-2.5 shrink-0" />
+              {cover.label ?? `Cover ${i + 1}`}
+            </span>
+            <button
+              type="button"
+              onClick={() => downloadBlob(blob, coverFilename(name, i, cover))}
+              title="Download image"
+              className="rounded p-0.5 text-gray-300 transition-colors hover:bg-white/10 hover:text-white"
+            >
+              <Download className="h-3 w-3" />
+            </button>
+          </figcaption>
+        </figure>
+      ))}
+    </div>
+  );
+}
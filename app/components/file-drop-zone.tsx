@@ -0,0 +1,65 @@
+import clsx from 'clsx';
+import { Upload } from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { type DragEvent, type ReactNode, useState } from 'react';
+
+interface FileDropZoneProps {
+  onFiles: (files: File[]) => void;
+  children: ReactNode;
+  className?: string;
+}
+
+export function FileDropZone({
+  onFiles,
+  children,
+  className,
+}: FileDropZoneProps) {
+  // dragenter/dragleave fire for every child element, so count them
+  const [dragDepth, setDragDepth] = useState(0);
+  const isDragging = dragDepth > 0;
+
+  const hasFiles = (e: DragEvent) => e.dataTransfer.types.includes('Files');
+
+  return (
+    <div
+      className={clsx('relative', className)}
+      onDragEnter={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDragDepth((depth) => depth + 1);
+      }}
+      onDragOver={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+      }}
+      onDragLeave={(e) => {
+        if (!hasFiles(e)) return;
+        setDragDepth((depth) => Math.max(0, depth - 1));
+      }}
+      onDrop={(e) => {
+        if (!hasFiles(e)) return;
+        e.preventDefault();
+        setDragDepth(0);
+        const files = Array.from(e.dataTransfer.files);
+        if (files.length > 0) onFiles(files);
+      }}
+    >
+      {children}
+
+      <AnimatePresence>
+        {isDragging && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="pointer-events-none absolute inset-0 z-30 flex items-center justify-center gap-2 rounded-2xl border-2 border-dashed border-blue-500/60 bg-blue-500/10 text-sm font-medium text-blue-300 backdrop-blur-sm"
+          >
+            <Upload className="h-4 w-4" />
+            <span>Drop to analyze locally</span>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
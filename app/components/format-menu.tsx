@@ -1,18 +1,39 @@
 import { Menu } from '@base-ui/react/menu';
-import { Check, ChevronDown, FileText, Code, FileCode } from 'lucide-react';
 import clsx from 'clsx';
+import {
+  Check,
+  ChevronDown,
+  Code,
+  FileCode,
+  FileText,
+  Printer,
+  ScrollText,
+  Sheet,
+  Table,
+} from 'lucide-react';
+
+import { REPORT_FORMATTERS } from '../services/report-formatters';
 
 interface FormatMenuProps {
   value: string;
   onChange: (value: string) => void;
 }
 
-const formats = [
+export const formats = [
   { value: 'text', label: 'Text Report', icon: FileText },
   { value: 'JSON', label: 'JSON Data', icon: Code },
   { value: 'XML', label: 'XML Document', icon: FileCode },
   { value: 'HTML', label: 'HTML View', icon: FileCode },
   { value: 'EBUCore_1.8_ps', label: 'EBUCore (XML)', icon: FileCode },
+  // Built from the object output, see report-formatters.ts
+  { value: 'csv', label: REPORT_FORMATTERS.csv.label, icon: Sheet },
+  { value: 'markdown', label: REPORT_FORMATTERS.markdown.label, icon: Table },
+  {
+    value: 'print-html',
+    label: REPORT_FORMATTERS['print-html'].label,
+    icon: Printer,
+  },
+  { value: 'nfo', label: REPORT_FORMATTERS.nfo.label, icon: ScrollText },
 ];
 
 export function FormatMenu({ value, onChange }: FormatMenuProps) {
@@ -24,16 +45,16 @@ export function FormatMenu({ value, onChange }: FormatMenuProps) {
         <span className="truncate">{selectedFormat.label}</span>
         <ChevronDown className="h-4 w-4 opacity-50" />
       </Menu.Trigger>
-      
+
       <Menu.Portal>
         <Menu.Positioner align="start" sideOffset={8}>
-          <Menu.Popup className="z-50 min-w-[200px] overflow-hidden rounded-xl border border-white/10 bg-[#141414] p-1.5 shadow-xl shadow-black/50 backdrop-blur-xl ring-1 ring-white/5">
+          <Menu.Popup className="z-50 min-w-[200px] overflow-hidden rounded-xl border border-white/10 bg-[#141414] p-1.5 shadow-xl ring-1 shadow-black/50 ring-white/5 backdrop-blur-xl">
             <Menu.RadioGroup value={value} onValueChange={onChange}>
               {formats.map((format) => (
                 <Menu.RadioItem
                   key={format.value}
                   value={format.value}
-                  className="group flex cursor-default select-none items-center justify-between rounded-lg px-3 py-2.5 text-sm text-gray-400 outline-none transition-colors hover:bg-white/5 hover:text-white data-checked:text-white"
+                  className="group flex cursor-default items-center justify-between rounded-lg px-3 py-2.5 text-sm text-gray-400 transition-colors outline-none select-none hover:bg-white/5 hover:text-white data-checked:text-white"
                   closeOnClick
                 >
                   <div className="flex items-center gap-3">
@@ -0,0 +1,133 @@
+import clsx from 'clsx';
+import { AlertCircle, AlertTriangle, CheckCircle2, Sun } from 'lucide-react';
+import type { MediaInfoResult } from 'mediainfo.js';
+import { useMemo } from 'react';
+
+import {
+  analyzeHdr,
+  type HdrFormat,
+  type HdrReport,
+} from '../services/hdr-metadata';
+
+const FORMAT_STYLES: Record<HdrFormat, string> = {
+  'Dolby Vision': 'bg-purple-500/15 text-purple-300',
+  'HDR10+': 'bg-amber-500/15 text-amber-300',
+  HDR10: 'bg-blue-500/15 text-blue-300',
+  PQ: 'bg-blue-500/10 text-blue-300',
+  HLG: 'bg-green-500/15 text-green-300',
+  SDR: 'bg-white/5 text-gray-400',
+};
+
+const nits = (value: number | null) =>
+  value === null ? null : `${value} cd/m²`;
+
+const fieldsOf = (report: HdrReport): [string, string | null][] => [
+  ['Transfer characteristics', report.transfer],
+  ['Colour primaries', report.primaries],
+  ['Matrix coefficients', report.matrix],
+  ['Colour range', report.range],
+  ['Bit depth', report.bitDepth ? `${report.bitDepth} bits` : null],
+  ['Mastering display primaries', report.mastering?.primaries ?? null],
+  [
+    'Mastering display luminance',
+    report.mastering &&
+    (report.mastering.minLuminance !== null ||
+      report.mastering.maxLuminance !== null)
+      ? `${report.mastering.minLuminance ?? '?'} – ${
+          report.mastering.maxLuminance ?? '?'
+        } cd/m²`
+      : null,
+  ],
+  ['MaxCLL', nits(report.maxCll)],
+  ['MaxFALL', nits(report.maxFall)],
+  ...(report.dolbyVision
+    ? ([
+        ['Dolby Vision profile', report.dolbyVision.profile],
+        ['Dolby Vision level', report.dolbyVision.level],
+        ['Dolby Vision layers', report.dolbyVision.layers],
+        ['Dolby Vision compatibility', report.dolbyVision.compatibility],
+      ] as [string, string | null][])
+    : []),
+];
+
+function HdrTrack({ report }: { report: HdrReport }) {
+  return (
+    <div className="overflow-hidden rounded-lg border border-white/5 bg-white/[0.02]">
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3">
+        <Sun className="h-4 w-4 shrink-0 text-blue-400" />
+        <span className="text-sm font-semibold text-gray-200">
+          {report.track}
+        </span>
+        {report.formats.map((format) => (
+          <span
+            key={format}
+            className={clsx(
+              'rounded-md px-2 py-0.5 text-[11px] font-semibold',
+              FORMAT_STYLES[format],
+            )}
+          >
+            {format}
+          </span>
+        ))}
+      </div>
+
+      <dl className="grid grid-cols-[minmax(12rem,auto)_1fr] gap-x-6 border-t border-white/5 px-4 py-3 font-mono text-[12px]">
+        {fieldsOf(report).map(([label, value]) => (
+          <div key={label} className="contents">
+            <dt className="py-0.5 text-gray-500">{label}</dt>
+            <dd
+              className={clsx(
+                'py-0.5 break-all',
+                value ? 'text-gray-300' : 'text-gray-700',
+              )}
+            >
+              {value ?? 'not signalled'}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="space-y-1.5 border-t border-white/5 px-4 py-3">
+        {report.issues.length === 0 ? (
+          <p className="flex items-center gap-2 text-xs text-green-400">
+            <CheckCircle2 className="h-3.5 w-3.5" />
+            {report.formats[0] === 'SDR'
+              ? 'No HDR signalling'
+              : 'HDR signalling is consistent'}
+          </p>
+        ) : (
+          report.issues.map((issue, index) => (
+            <p
+              key={index}
+              className={clsx(
+                'flex items-start gap-2 text-xs',
+                issue.severity === 'error' ? 'text-red-400' : 'text-amber-300',
+              )}
+            >
+              {issue.severity === 'error' ? (
+                <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              )}
+              {issue.message}
+            </p>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function HdrPanel({ result }: { result: MediaInfoResult }) {
+  const reports = useMemo(() => analyzeHdr(result), [result]);
+
+  return (
+    <div className="max-h-[60vh] space-y-3 overflow-auto p-4">
+      {reports.length === 0 ? (
+        <p className="text-xs text-gray-600">No video track</p>
+      ) : (
+        reports.map((report) => <HdrTrack key={report.track} report={report} />)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import clsx from 'clsx';
+import {
+  AlertCircle,
+  ChevronRight,
+  Cloud,
+  HardDrive,
+  RotateCw,
+  Search,
+  Trash2,
+} from 'lucide-react';
+import { AnimatePresence } from 'motion/react';
+import { Fragment, useEffect, useMemo, useState } from 'react';
+
+import { openUrlSource } from '../services/byte-source';
+import {
+  createHistoryEntry,
+  getHistoryStore,
+  type HistoryEntry,
+  type HistoryStore,
+  type HistorySummary,
+} from '../services/history';
+import { analyzeInWorker } from '../services/mediainfo-client';
+import { formats } from './format-menu';
+import { ReportPanel, VIEWER_FORMATS } from './report-panel';
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatLabel = (format: string) =>
+  formats.find((f) => f.value === format)?.label ?? format;
+
+const matches = (item: HistorySummary, needle: string) =>
+  [item.filename, item.url, item.container, item.format].some((value) =>
+    value?.toLowerCase().includes(needle),
+  );
+
+export function HistoryBrowser() {
+  const [store, setStore] = useState<HistoryStore | null>(null);
+  const [items, setItems] = useState<HistorySummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState<HistoryEntry | null>(null);
+  // Entry id → live status while it is being re-run
+  const [running, setRunning] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getHistoryStore().then(async (resolved) => {
+      setStore(resolved);
+      try {
+        setItems(await resolved.list());
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Failed to load history');
+      }
+    });
+  }, []);
+
+  const needle = query.trim().toLowerCase();
+  const visible = useMemo(
+    () => (needle ? items.filter((item) => matches(item, needle)) : items),
+    [items, needle],
+  );
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error occurred');
+    }
+  };
+
+  const toggle = (item: HistorySummary) =>
+    run(async () => {
+      if (!store) return;
+      if (open?.id === item.id) {
+        setOpen(null);
+        return;
+      }
+      const entry = await store.get(item.id);
+      if (!entry) throw new Error('This entry is no longer stored');
+      setOpen(entry);
+    });
+
+  const remove = (item: HistorySummary) =>
+    run(async () => {
+      if (!store) return;
+      await store.remove(item.id);
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+      if (open?.id === item.id) setOpen(null);
+    });
+
+  const rerun = (item: HistorySummary) =>
+    run(async () => {
+      if (!store || !item.url) return;
+      const onStatus = (message: string) =>
+        setRunning((prev) => ({ ...prev, [item.id]: message }));
+      try {
+        onStatus('Starting...');
+        const source = await openUrlSource(item.url, onStatus);
+        const analysis = await analyzeInWorker(
+          source,
+          Array.from(new Set([item.format, ...VIEWER_FORMATS])),
+          onStatus,
+        );
+        // The fresh result replaces the old one
+        const entry = {
+          ...createHistoryEntry(source, item.url, item.format, analysis),
+          id: item.id,
+        };
+        await store.save(entry);
+        setItems(await store.list());
+        setOpen(entry);
+      } finally {
+        setRunning(({ [item.id]: _done, ...rest }) => rest);
+      }
+    });
+
+  const StoreIcon = store?.kind === 'remote' ? Cloud : HardDrive;
+
+  return (
+    <div className="w-full">
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="pointer-events-none absolute top-1/2 left-4 h-4 w-4 -translate-y-1/2 text-gray-500" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by file name, URL, container or format..."
+            className="h-12 w-full rounded-2xl border border-white/10 bg-[#0A0A0A] pr-4 pl-11 text-sm text-gray-200 placeholder-gray-600 shadow-2xl ring-1 ring-white/5 outline-none focus:ring-blue-500/50"
+          />
+        </div>
+        {store && (
+          <span
+            className="flex items-center gap-1.5 text-xs text-gray-500"
+            title={
+              store.kind === 'remote'
+                ? 'Stored on the server'
+                : 'Stored in this browser'
+            }
+          >
+            <StoreIcon className="h-3.5 w-3.5" />
+            {items.length} saved
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-4 flex items-center gap-2 text-xs text-red-400">
+          <AlertCircle className="h-3 w-3" />
+          {error}
+        </div>
+      )}
+
+      <div className="mt-6 overflow-hidden rounded-xl border border-white/10 bg-[#0F0F0F] shadow-2xl">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-[#141414] text-gray-500">
+            <tr>
+              <th className="w-8" />
+              <th className="px-3 py-2.5 font-medium">File</th>
+              <th className="px-3 py-2.5 font-medium">Container</th>
+              <th className="px-3 py-2.5 font-medium">Size</th>
+              <th className="px-3 py-2.5 font-medium">Format</th>
+              <th className="px-3 py-2.5 font-medium">Analyzed</th>
+              <th className="w-20" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5 text-gray-300">
+            {visible.map((item) => {
+              const isOpen = open?.id === item.id;
+              const status = running[item.id];
+              return (
+                <Fragment key={item.id}>
+                  <tr
+                    onClick={() => toggle(item)}
+                    className="cursor-pointer transition-colors hover:bg-white/[0.03]"
+                  >
+                    <td className="pl-3 text-gray-600">
+                      <ChevronRight
+                        className={clsx(
+                          'h-3 w-3 transition-transform',
+                          isOpen && 'rotate-90',
+                        )}
+                      />
+                    </td>
+                    <td
+                      className="max-w-[20rem] truncate px-3 py-2 font-mono"
+                      title={item.url ?? item.filename}
+                    >
+                      {item.filename}
+                      {status ? (
+                        <span className="ml-2 font-sans text-blue-400">
+                          {status}
+                        </span>
+                      ) : (
+                        !item.url && (
+                          <span className="ml-2 font-sans text-gray-600">
+                            local
+                          </span>
+                        )
+                      )}
+                    </td>
+                    <td className="px-3 py-2">{item.container ?? '—'}</td>
+                    <td className="px-3 py-2 font-mono">
+                      {formatSize(item.size)}
+                    </td>
+                    <td className="px-3 py-2">{formatLabel(item.format)}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-500">
+                      {new Date(item.createdAt).toLocaleString()}
+                    </td>
+                    <td className="px-3 py-2">
+                      <div
+                        className="flex justify-end gap-1"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <button
+                          type="button"
+                          onClick={() => rerun(item)}
+                          disabled={!item.url || Boolean(status)}
+                          title={
+                            item.url
+                              ? 'Analyze again'
+                              : 'Local files have to be dropped again'
+                          }
+                          className="rounded-md p-1.5 text-gray-500 transition-colors hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-40"
+                        >
+                          <RotateCw
+                            className={clsx(
+                              'h-3.5 w-3.5',
+                              status && 'animate-spin',
+                            )}
+                          />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => remove(item)}
+                          title="Delete"
+                          className="rounded-md p-1.5 text-gray-500 transition-colors hover:bg-red-500/10 hover:text-red-400"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {isOpen && (
+                    <tr>
+                      <td colSpan={7} className="px-4 pb-4">
+                        <AnimatePresence>
+                          <ReportPanel
+                            key={open.createdAt}
+                            analysis={open.analysis}
+                            fileType={null}
+                            format={open.format}
+                            shareName={open.filename}
+                          />
+                        </AnimatePresence>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+        {visible.length === 0 && (
+          <p className="py-10 text-center text-xs text-gray-500">
+            {needle
+              ? `Nothing matches "${query}"`
+              : store
+                ? 'No analyses yet'
+                : 'Loading history...'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,294 @@
+import clsx from 'clsx';
+import {
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  ChevronRight,
+  Download,
+  Layers,
+} from 'lucide-react';
+import { motion } from 'motion/react';
+import { Fragment, type ReactNode, useState } from 'react';
+
+import { downloadText, mediaBaseName } from '../services/download';
+import { getFilenameFromUrl } from '../services/file-type';
+import type { RenditionType } from '../services/manifest';
+import {
+  type ManifestReport,
+  renderManifestText,
+  type RenditionReport,
+} from '../services/manifest-analysis';
+import { getTracks } from '../services/media-summary';
+import { ReportViewer } from './report-viewer';
+
+interface Column {
+  label: string;
+  cell: (report: RenditionReport) => ReactNode;
+}
+
+const kbps = (bits: number | null) =>
+  bits ? `${Math.round(bits / 1000).toLocaleString()} kb/s` : '—';
+
+const detectedFormats = (
+  { result, error }: RenditionReport,
+  type: 'Video' | 'Audio',
+) =>
+  error ? (
+    <span className="text-gray-600">{error}</span>
+  ) : (
+    getTracks(result, type)
+      .map((track) => track.Format)
+      .join(', ') || '—'
+  );
+
+const flags = ({ rendition }: RenditionReport) =>
+  [rendition.isDefault && 'default', rendition.forced && 'forced']
+    .filter(Boolean)
+    .join(', ') || '—';
+
+const COLUMNS: Record<RenditionType, Column[]> = {
+  video: [
+    { label: 'Rendition', cell: ({ rendition }) => rendition.id },
+    { label: 'Bandwidth', cell: ({ rendition }) => kbps(rendition.bandwidth) },
+    { label: 'Measured', cell: (report) => kbps(report.measuredBitrate) },
+    {
+      label: 'Resolution',
+      cell: ({ rendition }) =>
+        rendition.width ? `${rendition.width}×${rendition.height}` : '—',
+    },
+    {
+      label: 'Frame rate',
+      cell: ({ rendition }) => rendition.frameRate?.toFixed(3) ?? '—',
+    },
+    {
+      label: 'Codecs',
+      cell: ({ rendition }) => rendition.codecs.join(', ') || '—',
+    },
+    { label: 'Detected', cell: (report) => detectedFormats(report, 'Video') },
+    {
+      label: 'Audio group',
+      cell: ({ rendition }) => rendition.audioGroup ?? '—',
+    },
+  ],
+  audio: [
+    { label: 'Rendition', cell: ({ rendition }) => rendition.id },
+    { label: 'Group', cell: ({ rendition }) => rendition.group ?? '—' },
+    { label: 'Language', cell: ({ rendition }) => rendition.language ?? '—' },
+    {
+      label: 'Channels',
+      cell: ({ rendition }) => rendition.channels ?? '—',
+    },
+    { label: 'Bandwidth', cell: ({ rendition }) => kbps(rendition.bandwidth) },
+    {
+      label: 'Codecs',
+      cell: ({ rendition }) => rendition.codecs.join(', ') || '—',
+    },
+    { label: 'Detected', cell: (report) => detectedFormats(report, 'Audio') },
+    { label: 'Flags', cell: flags },
+  ],
+  subtitles: [
+    { label: 'Rendition', cell: ({ rendition }) => rendition.id },
+    { label: 'Group', cell: ({ rendition }) => rendition.group ?? '—' },
+    { label: 'Language', cell: ({ rendition }) => rendition.language ?? '—' },
+    {
+      label: 'Codecs',
+      cell: ({ rendition }) => rendition.codecs.join(', ') || '—',
+    },
+    { label: 'Flags', cell: flags },
+  ],
+};
+
+const SECTION_TITLES: Record<RenditionType, string> = {
+  video: 'Bitrate ladder',
+  audio: 'Audio',
+  subtitles: 'Subtitles',
+};
+
+function RenditionTable({
+  type,
+  reports,
+  flagged,
+}: {
+  type: RenditionType;
+  reports: RenditionReport[];
+  // Rendition ids with issues
+  flagged: Set<string>;
+}) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const columns = COLUMNS[type];
+
+  // Highest rung first, like a player's quality menu
+  const rows =
+    type === 'video'
+      ? [...reports].sort(
+          (a, b) => (b.rendition.bandwidth ?? 0) - (a.rendition.bandwidth ?? 0),
+        )
+      : reports;
+
+  return (
+    <div className="border-t border-white/5">
+      <h3 className="px-4 pt-3 pb-1 text-[10px] font-bold tracking-wider text-gray-600 uppercase">
+        {SECTION_TITLES[type]}
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-left text-xs">
+          <thead className="text-gray-500">
+            <tr>
+              <th className="w-8" />
+              {columns.map((column) => (
+                <th
+                  key={column.label}
+                  className="px-3 py-2 font-medium whitespace-nowrap"
+                >
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-white/5 text-gray-300">
+            {rows.map((report) => {
+              const { id } = report.rendition;
+              const isOpen = expanded === id;
+              return (
+                <Fragment key={id}>
+                  <tr
+                    onClick={() =>
+                      report.result && setExpanded(isOpen ? null : id)
+                    }
+                    className={clsx(
+                      'transition-colors',
+                      report.result && 'cursor-pointer hover:bg-white/[0.03]',
+                      flagged.has(id) && 'bg-amber-500/[0.04]',
+                    )}
+                  >
+                    <td className="pl-3 text-gray-600">
+                      {report.result && (
+                        <ChevronRight
+                          className={clsx(
+                            'h-3 w-3 transition-transform',
+                            isOpen && 'rotate-90',
+                          )}
+                        />
+                      )}
+                    </td>
+                    {columns.map((column) => (
+                      <td
+                        key={column.label}
+                        className="px-3 py-2 font-mono whitespace-nowrap"
+                      >
+                        {column.cell(report)}
+                      </td>
+                    ))}
+                  </tr>
+                  {isOpen && report.result && (
+                    <tr>
+                      <td colSpan={columns.length + 1}>
+                        <ReportViewer result={report.result} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function ManifestReportPanel({ report }: { report: ManifestReport }) {
+  const baseName = mediaBaseName(getFilenameFromUrl(report.url) ?? 'manifest');
+  const flagged = new Set(
+    report.issues.flatMap((issue) =>
+      issue.rendition ? [issue.rendition] : [],
+    ),
+  );
+  const ofType = (type: RenditionType) =>
+    report.renditions.filter(({ rendition }) => rendition.type === type);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95, y: 20 }}
+      animate={{ opacity: 1, scale: 1, y: 0 }}
+      transition={{ duration: 0.4, ease: [0.23, 1, 0.32, 1] }}
+      className="mt-8 overflow-hidden rounded-xl border border-white/10 bg-[#0F0F0F] shadow-2xl"
+    >
+      <div className="flex items-center justify-between gap-3 border-b border-white/5 bg-[#141414] px-4 py-2.5">
+        <div className="flex min-w-0 items-center gap-2 font-mono text-[11px] font-medium text-gray-500">
+          <Layers className="h-3 w-3 shrink-0" />
+          <span className="text-gray-300">{report.kind}</span>
+          <span className="truncate" title={report.url}>
+            {report.url}
+          </span>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          {(['text', 'JSON'] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() =>
+                format === 'text'
+                  ? downloadText(
+                      renderManifestText(report),
+                      `${baseName}.manifest.txt`,
+                    )
+                  : downloadText(
+                      JSON.stringify(report, null, 2),
+                      `${baseName}.manifest.json`,
+                      'application/json',
+                    )
+              }
+              className="flex items-center gap-1.5 rounded-md bg-white/5 px-2.5 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+            >
+              <Download className="h-3 w-3" />
+              <span>{format === 'text' ? 'Text' : 'JSON'}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1.5 p-4">
+        {report.issues.length === 0 ? (
+          <p className="flex items-center gap-2 text-xs text-green-400">
+            <CheckCircle2 className="h-3.5 w-3.5" />
+            Manifest and segments agree
+          </p>
+        ) : (
+          report.issues.map((issue, index) => (
+            <p
+              key={index}
+              className={clsx(
+                'flex items-start gap-2 text-xs',
+                issue.severity === 'error' ? 'text-red-400' : 'text-amber-300',
+              )}
+            >
+              {issue.severity === 'error' ? (
+                <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              )}
+              <span>
+                {issue.rendition && (
+                  <span className="font-mono">{issue.rendition}: </span>
+                )}
+                {issue.message}
+              </span>
+            </p>
+          ))
+        )}
+      </div>
+
+      {(['video', 'audio', 'subtitles'] as const).map(
+        (type) =>
+          ofType(type).length > 0 && (
+            <RenditionTable
+              key={type}
+              type={type}
+              reports={ofType(type)}
+              flagged={flagged}
+            />
+          ),
+      )}
+    </motion.div>
+  );
+}
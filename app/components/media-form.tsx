@@ -1,12 +1,49 @@
 import { Input } from '@base-ui/react/input';
 import clsx from 'clsx';
-import { motion, AnimatePresence } from 'motion/react';
-import { useActionState, useState } from 'react';
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowRight,
+  FileVideo,
+  FolderOpen,
+  GitCompare,
+  ListChecks,
+  Search,
+  X,
+} from 'lucide-react';
+import { AnimatePresence, motion } from 'motion/react';
+import { useActionState, useRef, useState } from 'react';
 import { useFormStatus } from 'react-dom';
-import { Search, Terminal, AlertCircle, ArrowRight, Copy, Check } from 'lucide-react';
 
-import { analyzeMedia } from '../services/mediainfo';
+import { type BlockCacheStats, cacheHitRatio } from '../services/block-cache';
+import {
+  openFileSource,
+  openUrlSource,
+  proxyFetchWithHeaders,
+  type StreamingState,
+} from '../services/byte-source';
+import type { DetectedFileType } from '../services/file-type';
+import { createHistoryEntry, recordHistory } from '../services/history';
+import { getManifestKind } from '../services/manifest';
+import {
+  analyzeManifest,
+  type ManifestReport,
+} from '../services/manifest-analysis';
+import type { MultiFormatResult } from '../services/mediainfo';
+import { analyzeInWorker } from '../services/mediainfo-client';
+import {
+  AdvancedOptions,
+  getReportOptions,
+  getStreamingOptions,
+  getTimeoutSeconds,
+  getUpstreamHeaders,
+} from './advanced-options';
+import { BatchAnalysis } from './batch-analysis';
+import { CompareAnalysis } from './compare-analysis';
+import { FileDropZone } from './file-drop-zone';
 import { FormatMenu } from './format-menu';
+import { ManifestReportPanel } from './manifest-report';
+import { ReportPanel, VIEWER_FORMATS } from './report-panel';
 
 function SubmitButton() {
   const { pending } = useFormStatus();
@@ -29,154 +66,392 @@ function SubmitButton() {
   );
 }
 
-function CopyButton({ text }: { text: string }) {
-  const [copied, setCopied] = useState(false);
+type Mode = 'single' | 'batch' | 'compare';
 
-  const handleCopy = async () => {
-    await navigator.clipboard.writeText(text);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
+const modes: { value: Mode; label: string; icon: typeof Search }[] = [
+  { value: 'single', label: 'Single', icon: Search },
+  { value: 'batch', label: 'Batch', icon: ListChecks },
+  { value: 'compare', label: 'Compare', icon: GitCompare },
+];
 
+function ModeSwitch({
+  value,
+  onChange,
+}: {
+  value: Mode;
+  onChange: (mode: Mode) => void;
+}) {
   return (
-    <button
-      onClick={handleCopy}
-      className="flex items-center gap-1.5 rounded-md bg-white/5 px-2.5 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
-    >
-      {copied ? (
-        <>
-          <Check className="h-3 w-3 text-green-400" />
-          <span className="text-green-400">Copied</span>
-        </>
-      ) : (
-        <>
-          <Copy className="h-3 w-3" />
-          <span>Copy</span>
-        </>
-      )}
-    </button>
+    <div className="mb-3 flex justify-center">
+      <div className="inline-flex rounded-xl border border-white/10 bg-[#0A0A0A] p-1">
+        {modes.map((mode) => (
+          <button
+            key={mode.value}
+            type="button"
+            onClick={() => onChange(mode.value)}
+            className={clsx(
+              'flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-xs font-medium transition-colors',
+              value === mode.value
+                ? 'bg-white/10 text-white'
+                : 'text-gray-500 hover:text-gray-300',
+            )}
+          >
+            <mode.icon className="h-3 w-3" />
+            <span>{mode.label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const formatMB = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+function StreamingNotice({ streaming }: { streaming: StreamingState }) {
+  return (
+    <div className="mt-4 flex items-start gap-2 rounded-xl border border-amber-500/20 bg-amber-500/10 px-4 py-3 text-xs text-amber-300">
+      <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+      <p>
+        The server doesn&apos;t support byte ranges, so only the first{' '}
+        {formatMB(streaming.bytesRead)} were streamed
+        {streaming.truncated
+          ? ` (limit ${formatMB(streaming.maxBytes)}) and MediaInfo stopped before reaching the data it asked for`
+          : ''}
+        . Fields that depend on seeking, such as an MP4 moov atom at the end of
+        the file, durations or overall bitrates, may be missing or incomplete.
+      </p>
+    </div>
+  );
+}
+
+function NetworkStats({ stats }: { stats: BlockCacheStats }) {
+  return (
+    <p className="mt-4 text-right font-mono text-[11px] text-gray-600">
+      {stats.requests} requests · {formatMB(stats.bytesFetched)} fetched ·{' '}
+      {Math.round(cacheHitRatio(stats) * 100)}% cache hits
+    </p>
   );
 }
 
+interface AnalysisState {
+  analysis: MultiFormatResult | null;
+  fileType: DetectedFileType | null;
+  // File name (or URL) the analysis was run on
+  name: string | null;
+  // Set when the upstream had no Range support and was streamed instead
+  streaming: StreamingState | null;
+  // Network use of a URL analysis
+  stats: BlockCacheStats | null;
+  // HLS/DASH URLs get a per-rendition report instead of `analysis`
+  manifest: ManifestReport | null;
+  error: string | null;
+}
+
 export function MediaForm() {
+  const [mode, setMode] = useState<Mode>('single');
   const [realtimeStatus, setRealtimeStatus] = useState<string>('');
   const [format, setFormat] = useState<string>('text');
+  // A local file takes precedence over the URL field
+  const [file, setFile] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Share of the source handed to MediaInfo, null until the first read
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
-  const [state, formAction] = useActionState(
-    async (_prevState: any, formData: FormData) => {
+  const [state, formAction, isPending] = useActionState(
+    async (
+      _prevState: AnalysisState,
+      formData: FormData,
+    ): Promise<AnalysisState> => {
       const url = formData.get('url') as string;
-      if (!url) return { error: 'Please enter a valid URL' };
+      if (!url && !file) {
+        return {
+          analysis: null,
+          fileType: null,
+          name: null,
+          streaming: null,
+          stats: null,
+          manifest: null,
+          error: 'Please enter a valid URL or choose a file',
+        };
+      }
+
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const timeout = getTimeoutSeconds(formData);
+      const signal = timeout
+        ? AbortSignal.any([
+            controller.signal,
+            AbortSignal.timeout(timeout * 1000),
+          ])
+        : controller.signal;
 
+      let fileType: DetectedFileType | null = null;
+      const options = {
+        onFileType: (detected: DetectedFileType) => {
+          fileType = detected;
+        },
+        ...getReportOptions(formData),
+        signal,
+        onProgress: (bytesRead: number, total: number) =>
+          setProgress(total > 0 ? bytesRead / total : null),
+      };
       try {
         setRealtimeStatus('Initializing...');
-        const result = await analyzeMedia(
+        setProgress(null);
+        const onStatus = (status: string) => setRealtimeStatus(status);
+        const fetchUpstream = proxyFetchWithHeaders(
+          getUpstreamHeaders(formData),
           url,
-          () => {}, 
-          (status) => setRealtimeStatus(status),
-          format,
         );
-        return { result, error: null };
+
+        if (!file && getManifestKind(url)) {
+          // Sampled segment by segment, so no overall progress
+          const manifest = await analyzeManifest(url, onStatus, {
+            fetchUpstream,
+            signal,
+            analyze: async (source) =>
+              (
+                await analyzeInWorker(source, ['object'], onStatus, {
+                  ...getReportOptions(formData),
+                  signal,
+                })
+              ).object,
+          });
+          return {
+            analysis: null,
+            fileType: null,
+            name: url,
+            streaming: null,
+            stats: null,
+            manifest,
+            error: null,
+          };
+        }
+
+        const source = file
+          ? await openFileSource(file, onStatus)
+          : await openUrlSource(url, onStatus, fetchUpstream, {
+              streaming: getStreamingOptions(formData) ?? undefined,
+              signal,
+            });
+        // Every view is rendered from this one pass over the source
+        const analysis = await analyzeInWorker(
+          source,
+          Array.from(new Set([format, ...VIEWER_FORMATS])),
+          onStatus,
+          options,
+        );
+        void recordHistory(
+          createHistoryEntry(source, file ? null : url, format, analysis),
+        );
+        return {
+          analysis,
+          fileType,
+          name: source.fileType.filename ?? source.name,
+          streaming: source.streaming ?? null,
+          stats: source.stats ? { ...source.stats } : null,
+          manifest: null,
+          error: null,
+        };
       } catch (e) {
+        let error = e instanceof Error ? e.message : 'Unknown error occurred';
+        if (signal.aborted) {
+          error =
+            signal.reason instanceof DOMException &&
+            signal.reason.name === 'TimeoutError'
+              ? `Analysis timed out after ${timeout}s`
+              : 'Analysis cancelled';
+        }
         return {
-          error: e instanceof Error ? e.message : 'Unknown error occurred',
-          result: null,
+          error,
+          analysis: null,
+          fileType,
+          name: null,
+          streaming: null,
+          stats: null,
+          manifest: null,
         };
+      } finally {
+        if (abortRef.current === controller) abortRef.current = null;
       }
     },
-    { result: null, error: null },
+    {
+      analysis: null,
+      fileType: null,
+      name: null,
+      streaming: null,
+      stats: null,
+      manifest: null,
+      error: null,
+    },
   );
 
+  // A new run hides the previous run's error
+  const error = isPending ? null : state.error;
+
+  if (mode === 'batch') {
+    return (
+      <div className="w-full">
+        <ModeSwitch value={mode} onChange={setMode} />
+        <BatchAnalysis format={format} onFormatChange={setFormat} />
+      </div>
+    );
+  }
+
+  if (mode === 'compare') {
+    return (
+      <div className="w-full">
+        <ModeSwitch value={mode} onChange={setMode} />
+        <CompareAnalysis />
+      </div>
+    );
+  }
+
   return (
     <div className="w-full">
-      <form action={formAction} className="relative z-20">
-        <div className="relative flex flex-col gap-2 rounded-2xl border border-white/10 bg-[#0A0A0A] p-2 shadow-2xl ring-1 ring-white/5 transition-all focus-within:ring-blue-500/50 sm:flex-row sm:items-center sm:gap-0 sm:pr-2">
-          
-          <div className="relative z-20 sm:border-r sm:border-white/10">
-             <FormatMenu value={format} onChange={setFormat} />
-          </div>
+      <ModeSwitch value={mode} onChange={setMode} />
+      <FileDropZone onFiles={([dropped]) => setFile(dropped)}>
+        <form action={formAction} className="relative z-20">
+          <div className="relative flex flex-col gap-2 rounded-2xl border border-white/10 bg-[#0A0A0A] p-2 shadow-2xl ring-1 ring-white/5 transition-all focus-within:ring-blue-500/50 sm:flex-row sm:items-center sm:gap-0 sm:pr-2">
+            <div className="relative z-20 sm:border-r sm:border-white/10">
+              <FormatMenu value={format} onChange={setFormat} />
+            </div>
 
-          <div className="relative flex-1">
-            <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-4">
-              <Search className="h-4 w-4 text-gray-500" />
+            <div className="relative flex-1">
+              {file ? (
+                <div className="flex h-12 items-center gap-3 pr-4 pl-4 text-sm text-gray-200">
+                  <FileVideo className="h-4 w-4 shrink-0 text-blue-400" />
+                  <span className="truncate">{file.name}</span>
+                  <span className="shrink-0 font-mono text-xs text-gray-500">
+                    {(file.size / (1024 * 1024)).toFixed(2)} MB
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setFile(null)}
+                    title="Clear file"
+                    className="ml-auto rounded-md p-1 text-gray-500 transition-colors hover:bg-white/10 hover:text-white"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ) : (
+                <>
+                  <div className="pointer-events-none absolute inset-y-0 left-0 flex items-center pl-4">
+                    <Search className="h-4 w-4 text-gray-500" />
+                  </div>
+                  <Input
+                    name="url"
+                    type="url"
+                    placeholder="Paste media URL or drop a local file"
+                    autoComplete="off"
+                    className="h-12 w-full bg-transparent pr-4 pl-11 text-sm text-gray-200 placeholder-gray-600 transition-colors outline-none"
+                  />
+                </>
+              )}
             </div>
-            <Input
-              name="url"
-              type="url"
-              placeholder="Paste media URL (e.g., https://example.com/video.mp4)"
-              autoComplete="off"
-              className="h-12 w-full bg-transparent pl-11 pr-4 text-sm text-gray-200 placeholder-gray-600 outline-none transition-colors"
-            />
-          </div>
 
-          <div className="mt-2 sm:mt-0">
-            <SubmitButton />
+            <div className="mt-2 flex items-center gap-2 sm:mt-0">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="video/*,audio/*,image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const picked = e.target.files?.[0];
+                  if (picked) setFile(picked);
+                  // Allow picking the same file again
+                  e.target.value = '';
+                }}
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                title="Analyze a local file (never uploaded)"
+                className="flex h-12 w-12 items-center justify-center rounded-xl text-gray-500 transition-colors hover:bg-white/5 hover:text-gray-200"
+              >
+                <FolderOpen className="h-4 w-4" />
+              </button>
+              <SubmitButton />
+            </div>
           </div>
-        </div>
-      </form>
+          <AdvancedOptions isFile={file !== null} />
+        </form>
+      </FileDropZone>
 
       {/* Status Bar */}
       <AnimatePresence mode="wait">
-        {(realtimeStatus || state.error) && !state.result && (
+        {(isPending ||
+          ((realtimeStatus || error) &&
+            !state.analysis &&
+            !state.manifest)) && (
           <motion.div
             initial={{ opacity: 0, height: 0 }}
             animate={{ opacity: 1, height: 'auto' }}
             exit={{ opacity: 0, height: 0 }}
-            className="mt-4 flex justify-center overflow-hidden"
+            className="mt-4 flex flex-col items-center gap-2 overflow-hidden"
           >
-            <div className={clsx(
-              "flex items-center gap-3 rounded-full border px-4 py-1.5 text-xs font-medium backdrop-blur-md",
-              state.error 
-                ? "border-red-500/20 bg-red-500/10 text-red-400" 
-                : "border-blue-500/20 bg-blue-500/10 text-blue-400"
-            )}>
-              {state.error ? <AlertCircle className="h-3 w-3" /> : <div className="h-1.5 w-1.5 animate-pulse rounded-full bg-current" />}
-              {state.error || realtimeStatus}
+            <div
+              className={clsx(
+                'flex items-center gap-3 rounded-full border px-4 py-1.5 text-xs font-medium backdrop-blur-md',
+                error
+                  ? 'border-red-500/20 bg-red-500/10 text-red-400'
+                  : 'border-blue-500/20 bg-blue-500/10 text-blue-400',
+              )}
+            >
+              {error ? (
+                <AlertCircle className="h-3 w-3" />
+              ) : (
+                <div className="h-1.5 w-1.5 animate-pulse rounded-full bg-current" />
+              )}
+              {error || realtimeStatus}
+              {isPending && (
+                <button
+                  type="button"
+                  onClick={() => abortRef.current?.abort()}
+                  className="-mr-2 flex items-center gap-1 rounded-full px-2 py-0.5 text-blue-300 transition-colors hover:bg-blue-500/20 hover:text-white"
+                >
+                  <X className="h-3 w-3" />
+                  Cancel
+                </button>
+              )}
             </div>
+            {isPending && progress !== null && (
+              <div
+                role="progressbar"
+                aria-valuenow={Math.round(progress * 100)}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                title={`${Math.round(progress * 100)}% of the file read`}
+                className="h-1 w-64 overflow-hidden rounded-full bg-white/10"
+              >
+                <div
+                  className="h-full rounded-full bg-blue-400 transition-[width]"
+                  style={{ width: `${Math.max(2, progress * 100)}%` }}
+                />
+              </div>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
 
+      {state.analysis && state.streaming && (
+        <StreamingNotice streaming={state.streaming} />
+      )}
+
+      {state.analysis && state.stats && <NetworkStats stats={state.stats} />}
+
       {/* Results Terminal */}
       <AnimatePresence>
-        {state.result && (
-          <motion.div
-            initial={{ opacity: 0, scale: 0.95, y: 20 }}
-            animate={{ opacity: 1, scale: 1, y: 0 }}
-            transition={{ duration: 0.4, ease: [0.23, 1, 0.32, 1] }}
-            className="mt-8 overflow-hidden rounded-xl border border-white/10 bg-[#0F0F0F] shadow-2xl"
-          >
-            {/* Terminal Header */}
-            <div className="flex items-center justify-between border-b border-white/5 bg-[#141414] px-4 py-2.5">
-              <div className="flex items-center gap-3">
-                <div className="flex gap-1.5">
-                  <div className="h-2.5 w-2.5 rounded-full bg-[#333]" />
-                  <div className="h-2.5 w-2.5 rounded-full bg-[#333]" />
-                  <div className="h-2.5 w-2.5 rounded-full bg-[#333]" />
-                </div>
-                <div className="h-4 w-[1px] bg-white/10" />
-                <div className="flex items-center gap-2 text-[11px] font-medium text-gray-500 font-mono">
-                  <Terminal className="h-3 w-3" />
-                  <span>Output</span>
-                </div>
-              </div>
-              
-              <div className="flex items-center gap-3">
-                 <span className="text-[10px] uppercase tracking-wider text-gray-600 font-bold">
-                  {format}
-                </span>
-                <div className="h-4 w-[1px] bg-white/10" />
-                <CopyButton text={state.result} />
-              </div>
-            </div>
-
-            {/* Terminal Body */}
-            <div className="relative group bg-[#0A0A0A]">
-               <pre className="max-h-[60vh] w-full overflow-auto p-6 text-[13px] font-mono leading-relaxed text-gray-300">
-                {state.result}
-              </pre>
-            </div>
-          </motion.div>
+        {state.analysis && (
+          <ReportPanel
+            analysis={state.analysis}
+            fileType={state.fileType}
+            format={format}
+            shareName={state.name ?? undefined}
+          />
         )}
+        {state.manifest && <ManifestReportPanel report={state.manifest} />}
       </AnimatePresence>
     </div>
   );
@@ -0,0 +1,164 @@
+import clsx from 'clsx';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  FileUp,
+  type LucideIcon,
+  XCircle,
+} from 'lucide-react';
+import type { MediaInfoResult } from 'mediainfo.js';
+import { useMemo, useRef, useState } from 'react';
+
+import {
+  evaluatePolicy,
+  parsePolicy,
+  QC_PRESETS,
+  type QcPolicy,
+  type QcStatus,
+} from '../services/qc-policy';
+
+// The last loaded custom policy survives reloads
+const CUSTOM_POLICY_KEY = 'mediapeek:qc-policy';
+const SELECTED_POLICY_KEY = 'mediapeek:qc-selected';
+const CUSTOM = 'custom';
+
+const STATUS_STYLES: Record<QcStatus, { icon: LucideIcon; className: string }> =
+  {
+    pass: { icon: CheckCircle2, className: 'text-green-400' },
+    warn: { icon: AlertTriangle, className: 'text-amber-400' },
+    fail: { icon: XCircle, className: 'text-red-400' },
+  };
+
+const loadCustomPolicy = (): QcPolicy | null => {
+  const stored = localStorage.getItem(CUSTOM_POLICY_KEY);
+  if (!stored) return null;
+  try {
+    return parsePolicy(stored);
+  } catch {
+    return null;
+  }
+};
+
+export function QcPanel({ result }: { result: MediaInfoResult }) {
+  const [custom, setCustom] = useState(loadCustomPolicy);
+  const [selected, setSelected] = useState(
+    () => localStorage.getItem(SELECTED_POLICY_KEY) ?? 'uhd-hdr10',
+  );
+  const [error, setError] = useState<string | null>(null);
+  const policyInputRef = useRef<HTMLInputElement>(null);
+
+  const policy = selected === CUSTOM ? custom : (QC_PRESETS[selected] ?? null);
+  const report = useMemo(
+    () => (policy ? evaluatePolicy(result, policy) : null),
+    [result, policy],
+  );
+
+  const select = (id: string) => {
+    setSelected(id);
+    localStorage.setItem(SELECTED_POLICY_KEY, id);
+  };
+
+  const loadPolicyFile = async (file: File) => {
+    const text = await file.text();
+    try {
+      setCustom(parsePolicy(text));
+      localStorage.setItem(CUSTOM_POLICY_KEY, text);
+      setError(null);
+      select(CUSTOM);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read policy');
+    }
+  };
+
+  const Summary = report ? STATUS_STYLES[report.status] : null;
+
+  return (
+    <div className="max-h-[60vh] overflow-auto p-4">
+      <div className="mb-4 flex flex-wrap items-center gap-3">
+        <select
+          value={policy ? selected : ''}
+          onChange={(e) => select(e.target.value)}
+          className="h-9 rounded-lg border border-white/10 bg-black/40 px-3 text-xs text-gray-200 outline-none focus:border-blue-500/50"
+        >
+          {!policy && <option value="">Select a policy</option>}
+          {Object.entries(QC_PRESETS).map(([id, preset]) => (
+            <option key={id} value={id}>
+              {preset.name}
+            </option>
+          ))}
+          {custom && <option value={CUSTOM}>{custom.name}</option>}
+        </select>
+        <input
+          ref={policyInputRef}
+          type="file"
+          accept=".json,.yaml,.yml,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) loadPolicyFile(file);
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => policyInputRef.current?.click()}
+          className="flex items-center gap-1.5 rounded-md bg-white/5 px-2.5 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+        >
+          <FileUp className="h-3 w-3" />
+          <span>Load policy (JSON/YAML)</span>
+        </button>
+        {report && Summary && (
+          <span
+            className={clsx(
+              'ml-auto flex items-center gap-1.5 text-xs font-semibold uppercase',
+              Summary.className,
+            )}
+          >
+            <Summary.icon className="h-3.5 w-3.5" />
+            {report.status}
+          </span>
+        )}
+      </div>
+
+      {error && <p className="mb-3 text-xs text-red-400">{error}</p>}
+
+      {report && (
+        <ul className="space-y-1.5">
+          {report.results.map((rule, index) => {
+            const { icon: Icon, className } = STATUS_STYLES[rule.status];
+            return (
+              <li
+                key={index}
+                className="flex items-start gap-3 rounded-lg border border-white/5 bg-white/[0.02] px-4 py-2.5"
+              >
+                <Icon className={clsx('mt-0.5 h-4 w-4 shrink-0', className)} />
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-200">{rule.label}</div>
+                  {rule.status !== 'pass' && (
+                    <div className="mt-0.5 font-mono text-[11px] text-gray-500">
+                      {rule.message}
+                    </div>
+                  )}
+                  {rule.offenders.length > 1 && (
+                    <div className="mt-1.5 flex flex-wrap gap-1.5">
+                      {rule.offenders.map((offender) => (
+                        <span
+                          key={offender.track}
+                          className="rounded-md bg-white/5 px-2 py-0.5 font-mono text-[11px] text-gray-400"
+                        >
+                          {offender.track}
+                          {offender.field &&
+                            ` · ${offender.field} = ${offender.actual ?? '—'}`}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import clsx from 'clsx';
+import { Check, Copy, Download, Terminal } from 'lucide-react';
+import { motion } from 'motion/react';
+import { useMemo, useState } from 'react';
+
+import { extractCovers } from '../services/cover-art';
+import { downloadBlob, downloadText } from '../services/download';
+import {
+  type DetectedFileType,
+  DETECTION_METHOD_LABELS,
+} from '../services/file-type';
+import type { MultiFormatResult } from '../services/mediainfo';
+import {
+  buildReportsZip,
+  reportFilename,
+  reportFileType,
+  reportsZipFilename,
+} from '../services/report-files';
+import { BitrateChart } from './bitrate-chart';
+import { CoverArt } from './cover-art';
+import { formats } from './format-menu';
+import { HdrPanel } from './hdr-panel';
+import { QcPanel } from './qc-panel';
+import { ReportViewer } from './report-viewer';
+import { ShareButton } from './share-button';
+import { TrackInspector } from './track-inspector';
+
+// Every FormatMenu format is rendered from the same run, so any of them can
+// be viewed or shared later without fetching the file again
+export const VIEWER_FORMATS = formats.map((f) => f.value);
+
+// The structured viewer is keyed by the object output
+const STRUCTURED = 'object';
+// Policy checks, also evaluated on the object output
+const QC = 'qc';
+// Chapters, stream flags and attachments, same source
+const TRACKS = 'tracks';
+// HDR format and colour signalling of the video tracks
+const HDR = 'hdr';
+// Stream sizes and bitrates, exported as an image rather than a report
+const BITRATE = 'bitrate';
+// Views of the object output with nothing of their own to download
+const PANEL_TABS = [QC, TRACKS, HDR, BITRATE];
+
+function CopyButton({ text }: { text: string }) {
+  const [result, setResult] = useState<'copied' | 'failed' | null>(null);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setResult('copied');
+    } catch {
+      // Very large reports can exceed what the clipboard accepts
+      setResult('failed');
+    }
+    setTimeout(() => setResult(null), 2000);
+  };
+
+  return (
+    <button
+      onClick={handleCopy}
+      className="flex items-center gap-1.5 rounded-md bg-white/5 px-2.5 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+    >
+      {result === 'copied' ? (
+        <>
+          <Check className="h-3 w-3 text-green-400" />
+          <span className="text-green-400">Copied</span>
+        </>
+      ) : result === 'failed' ? (
+        <span className="text-red-400">Copy failed, use Download</span>
+      ) : (
+        <>
+          <Copy className="h-3 w-3" />
+          <span>Copy</span>
+        </>
+      )}
+    </button>
+  );
+}
+
+function DownloadButton({
+  label,
+  title,
+  onClick,
+}: {
+  label: string;
+  title: string;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className="flex items-center gap-1.5 rounded-md bg-white/5 px-2.5 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+    >
+      <Download className="h-3 w-3" />
+      <span>{label}</span>
+    </button>
+  );
+}
+
+const tabLabel = (format: string) =>
+  format === STRUCTURED
+    ? 'Structured'
+    : format === QC
+      ? 'QC'
+      : format === TRACKS
+        ? 'Tracks'
+        : format === HDR
+          ? 'HDR'
+          : format === BITRATE
+            ? 'Bitrate'
+            : (formats.find((f) => f.value === format)?.label ?? format);
+
+interface ReportPanelProps {
+  analysis: MultiFormatResult;
+  fileType: DetectedFileType | null;
+  // The format picked in FormatMenu, shown first
+  format: string;
+  // Offers a share link when set; read-only views leave it out
+  shareName?: string;
+}
+
+export function ReportPanel({
+  analysis,
+  fileType,
+  format,
+  shareName,
+}: ReportPanelProps) {
+  const tabs = [STRUCTURED, ...PANEL_TABS, ...Object.keys(analysis.reports)];
+  // JSON is best read in the structured viewer
+  const [selected, setActive] = useState(
+    format === 'JSON' || !analysis.reports[format] ? STRUCTURED : format,
+  );
+  const active = tabs.includes(selected) ? selected : STRUCTURED;
+  // Base for download names
+  const mediaName = fileType?.filename ?? shareName ?? 'media';
+  // The structured view downloads as the object output's JSON
+  const downloadFormat = active === STRUCTURED ? 'JSON' : active;
+
+  // Only present when the analysis ran with cover extraction
+  const covers = useMemo(
+    () => extractCovers(analysis.object),
+    [analysis.object],
+  );
+
+  const activeText =
+    active === STRUCTURED || PANEL_TABS.includes(active)
+      ? JSON.stringify(analysis.object, null, 2)
+      : analysis.reports[active];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.95, y: 20 }}
+      animate={{ opacity: 1, scale: 1, y: 0 }}
+      transition={{ duration: 0.4, ease: [0.23, 1, 0.32, 1] }}
+      className="mt-8 overflow-hidden rounded-xl border border-white/10 bg-[#0F0F0F] shadow-2xl"
+    >
+      {/* Terminal Header */}
+      <div className="flex items-center justify-between border-b border-white/5 bg-[#141414] px-4 py-2.5">
+        <div className="flex items-center gap-3">
+          <div className="flex gap-1.5">
+            <div className="h-2.5 w-2.5 rounded-full bg-[#333]" />
+            <div className="h-2.5 w-2.5 rounded-full bg-[#333]" />
+            <div className="h-2.5 w-2.5 rounded-full bg-[#333]" />
+          </div>
+          <div className="h-4 w-[1px] bg-white/10" />
+          <div className="flex items-center gap-2 font-mono text-[11px] font-medium text-gray-500">
+            <Terminal className="h-3 w-3" />
+            <span>Output</span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {fileType && (
+            <>
+              <span
+                className="font-mono text-[11px] text-gray-500"
+                title={fileType.filename ?? undefined}
+              >
+                {fileType.container}
+                <span className="text-gray-700"> via </span>
+                {DETECTION_METHOD_LABELS[fileType.method]}
+              </span>
+              <div className="h-4 w-[1px] bg-white/10" />
+            </>
+          )}
+          <CopyButton text={activeText} />
+          {!PANEL_TABS.includes(active) && (
+            <DownloadButton
+              label="Download"
+              title={reportFilename(mediaName, downloadFormat)}
+              onClick={() =>
+                downloadText(
+                  activeText,
+                  reportFilename(mediaName, downloadFormat),
+                  reportFileType(downloadFormat).mimeType,
+                )
+              }
+            />
+          )}
+          <DownloadButton
+            label="All formats"
+            title={reportsZipFilename(mediaName)}
+            onClick={() =>
+              downloadBlob(
+                buildReportsZip(analysis, mediaName),
+                reportsZipFilename(mediaName),
+              )
+            }
+          />
+          {shareName && <ShareButton name={shareName} analysis={analysis} />}
+        </div>
+      </div>
+
+      {covers.length > 0 && <CoverArt covers={covers} name={mediaName} />}
+
+      {/* View Tabs */}
+      <div className="flex gap-1 overflow-x-auto border-b border-white/5 bg-[#111] px-2">
+        {tabs.map((tab) => (
+          <button
+            key={tab}
+            type="button"
+            onClick={() => setActive(tab)}
+            className={clsx(
+              '-mb-px border-b-2 px-3 py-2 text-[11px] font-medium whitespace-nowrap transition-colors',
+              active === tab
+                ? 'border-blue-500 text-white'
+                : 'border-transparent text-gray-500 hover:text-gray-300',
+            )}
+          >
+            {tabLabel(tab)}
+          </button>
+        ))}
+      </div>
+
+      {/* Terminal Body */}
+      <div className="group relative bg-[#0A0A0A]">
+        {active === STRUCTURED ? (
+          <ReportViewer result={analysis.object} />
+        ) : active === QC ? (
+          <QcPanel result={analysis.object} />
+        ) : active === TRACKS ? (
+          <TrackInspector result={analysis.object} />
+        ) : active === HDR ? (
+          <HdrPanel result={analysis.object} />
+        ) : active === BITRATE ? (
+          <BitrateChart result={analysis.object} name={mediaName} />
+        ) : (
+          <pre className="max-h-[60vh] w-full overflow-auto p-6 font-mono text-[13px] leading-relaxed text-gray-300">
+            {activeText}
+          </pre>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,198 @@
+import clsx from 'clsx';
+import {
+  ChevronRight,
+  Film,
+  Image as ImageIcon,
+  ListTree,
+  type LucideIcon,
+  MessageSquareText,
+  Music,
+  Package,
+  Search,
+  Shapes,
+} from 'lucide-react';
+import type { MediaInfoResult, Track } from 'mediainfo.js';
+import { useMemo, useState } from 'react';
+
+import {
+  formatFieldValue,
+  trackEntries,
+  trackTitle,
+} from '../services/media-summary';
+
+type TrackType = Track['@type'];
+
+const TRACK_ORDER: TrackType[] = [
+  'General',
+  'Video',
+  'Audio',
+  'Text',
+  'Menu',
+  'Image',
+  'Other',
+];
+
+const TRACK_ICONS: Record<TrackType, LucideIcon> = {
+  General: Package,
+  Video: Film,
+  Audio: Music,
+  Text: MessageSquareText,
+  Menu: ListTree,
+  Image: ImageIcon,
+  Other: Shapes,
+};
+
+// Fields worth seeing at a glance, shown as highlights on each card
+const KEY_FIELDS: Record<TrackType, string[]> = {
+  General: ['Format', 'Duration', 'FileSize', 'OverallBitRate', 'Title'],
+  Video: [
+    'Format',
+    'Format_Profile',
+    'Width',
+    'Height',
+    'FrameRate',
+    'BitRate',
+    'BitDepth',
+    'HDR_Format',
+  ],
+  Audio: [
+    'Format',
+    'Channels',
+    'SamplingRate',
+    'BitRate',
+    'Language',
+    'Default',
+  ],
+  Text: ['Format', 'Language', 'Title', 'Default', 'Forced'],
+  Menu: [],
+  Image: ['Format', 'Width', 'Height', 'BitDepth', 'ColorSpace'],
+  Other: ['Type', 'Format'],
+};
+
+const trackFields = (track: Track): [string, string][] =>
+  trackEntries(track).map(([key, value]) => [
+    key,
+    typeof value === 'object' && value !== null
+      ? JSON.stringify(value)
+      : String(value),
+  ]);
+
+function TrackCard({
+  track,
+  title,
+  fields,
+  forceOpen,
+}: {
+  track: Track;
+  title: string;
+  fields: [string, string][];
+  forceOpen: boolean;
+}) {
+  const [open, setOpen] = useState(track['@type'] !== 'Menu');
+  const isOpen = open || forceOpen;
+  const Icon = TRACK_ICONS[track['@type']] ?? Shapes;
+  const record = track as unknown as Record<string, unknown>;
+  const highlights = KEY_FIELDS[track['@type']]
+    .filter((key) => record[key] !== undefined)
+    .map((key) => [key, formatFieldValue(key, record[key])] as const);
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-white/5 bg-white/[0.02]">
+      <button
+        type="button"
+        onClick={() => setOpen(!isOpen)}
+        className="flex w-full items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-white/[0.03]"
+      >
+        <ChevronRight
+          className={clsx(
+            'h-3.5 w-3.5 shrink-0 text-gray-600 transition-transform',
+            isOpen && 'rotate-90',
+          )}
+        />
+        <Icon className="h-4 w-4 shrink-0 text-blue-400" />
+        <span className="text-sm font-semibold text-gray-200">{title}</span>
+        <div className="flex min-w-0 flex-wrap gap-1.5">
+          {highlights.map(([key, value]) => (
+            <span
+              key={key}
+              title={key}
+              className="rounded-md bg-blue-500/10 px-2 py-0.5 font-mono text-[11px] text-blue-300"
+            >
+              {value}
+            </span>
+          ))}
+        </div>
+      </button>
+
+      {isOpen && (
+        <dl className="grid grid-cols-[minmax(10rem,auto)_1fr] gap-x-6 border-t border-white/5 px-4 py-3 font-mono text-[12px]">
+          {fields.map(([key, value]) => (
+            <div key={key} className="contents">
+              <dt className="py-0.5 text-gray-500">{key}</dt>
+              <dd className="py-0.5 break-all text-gray-300">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
+
+export function ReportViewer({ result }: { result: MediaInfoResult }) {
+  const [query, setQuery] = useState('');
+  const needle = query.trim().toLowerCase();
+
+  const tracks = useMemo(() => {
+    const all = result.media?.track ?? [];
+    return [...all].sort(
+      (a, b) =>
+        TRACK_ORDER.indexOf(a['@type']) - TRACK_ORDER.indexOf(b['@type']),
+    );
+  }, [result]);
+
+  const cards = tracks
+    .map((track) => {
+      const sameType = tracks.filter((t) => t['@type'] === track['@type']);
+      const title = trackTitle(track, sameType.indexOf(track), sameType.length);
+      const fields = trackFields(track).filter(
+        ([key, value]) =>
+          !needle ||
+          key.toLowerCase().includes(needle) ||
+          value.toLowerCase().includes(needle),
+      );
+      return { track, title, fields };
+    })
+    .filter((card) => !needle || card.fields.length > 0);
+
+  return (
+    <div className="max-h-[60vh] overflow-auto p-4">
+      <div className="relative mb-4">
+        <Search className="pointer-events-none absolute top-1/2 left-3 h-3.5 w-3.5 -translate-y-1/2 text-gray-500" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Filter fields and values..."
+          className="h-9 w-full rounded-lg border border-white/10 bg-black/40 pr-3 pl-9 text-xs text-gray-200 placeholder-gray-600 outline-none focus:border-blue-500/50"
+        />
+      </div>
+
+      <div className="space-y-2">
+        {cards.map(({ track, title, fields }) => (
+          <TrackCard
+            key={title}
+            track={track}
+            title={title}
+            fields={fields}
+            forceOpen={Boolean(needle)}
+          />
+        ))}
+        {cards.length === 0 && (
+          <p className="py-8 text-center text-xs text-gray-500">
+            {needle ? `No fields match "${query}"` : 'No tracks found'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { Popover } from '@base-ui/react/popover';
+import { Check, Copy, Link2, Loader2, Share2, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+
+import type { MultiFormatResult } from '../services/mediainfo';
+
+const EXPIRY_OPTIONS: { label: string; seconds: number | null }[] = [
+  { label: 'Never', seconds: null },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 60 * 60 * 24 },
+  { label: '7 days', seconds: 60 * 60 * 24 * 7 },
+  { label: '30 days', seconds: 60 * 60 * 24 * 30 },
+];
+
+interface CreatedShare {
+  id: string;
+  url: string;
+  expiresAt: number | null;
+}
+
+interface ShareButtonProps {
+  name: string;
+  analysis: MultiFormatResult;
+}
+
+export function ShareButton({ name, analysis }: ShareButtonProps) {
+  const [expiresIn, setExpiresIn] = useState<number | null>(
+    EXPIRY_OPTIONS[3].seconds,
+  );
+  const [isPublic, setIsPublic] = useState(false);
+  const [share, setShare] = useState<CreatedShare | null>(null);
+  const [pending, setPending] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (action: () => Promise<void>) => {
+    setPending(true);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Unknown error occurred');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const createLink = () =>
+    request(async () => {
+      const response = await fetch('/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, isPublic, expiresIn, analysis }),
+      });
+      if (!response.ok) throw new Error(await response.text());
+      setShare(await response.json());
+    });
+
+  const revokeLink = () =>
+    request(async () => {
+      if (!share) return;
+      const response = await fetch(`/api/share/${share.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok && response.status !== 404) {
+        throw new Error(await response.text());
+      }
+      setShare(null);
+    });
+
+  const copyLink = async () => {
+    if (!share) return;
+    await navigator.clipboard.writeText(share.url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Popover.Root>
+      <Popover.Trigger className="flex items-center gap-1.5 rounded-md bg-white/5 px-2.5 py-1.5 text-xs font-medium text-gray-400 transition-colors hover:bg-white/10 hover:text-white">
+        <Share2 className="h-3 w-3" />
+        <span>Share</span>
+      </Popover.Trigger>
+
+      <Popover.Portal>
+        <Popover.Positioner align="end" sideOffset={8}>
+          <Popover.Popup className="z-50 w-72 rounded-xl border border-white/10 bg-[#141414] p-4 text-xs text-gray-400 shadow-xl ring-1 shadow-black/50 ring-white/5 backdrop-blur-xl">
+            {share ? (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2 rounded-lg border border-white/10 bg-black/40 px-3 py-2">
+                  <Link2 className="h-3.5 w-3.5 shrink-0 text-blue-400" />
+                  <span className="truncate font-mono text-gray-200">
+                    {share.url}
+                  </span>
+                </div>
+                <p>
+                  {share.expiresAt
+                    ? `Expires ${new Date(share.expiresAt).toLocaleString()}`
+                    : 'Never expires'}
+                  {isPublic ? ' · anyone with the link' : ' · login required'}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={copyLink}
+                    className="flex flex-1 items-center justify-center gap-1.5 rounded-md bg-white px-2.5 py-1.5 font-semibold text-black transition-colors hover:bg-gray-200"
+                  >
+                    {copied ? (
+                      <Check className="h-3 w-3" />
+                    ) : (
+                      <Copy className="h-3 w-3" />
+                    )}
+                    {copied ? 'Copied' : 'Copy link'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={revokeLink}
+                    disabled={pending}
+                    className="flex items-center gap-1.5 rounded-md bg-red-500/10 px-2.5 py-1.5 font-medium text-red-400 transition-colors hover:bg-red-500/20 disabled:opacity-60"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                <label className="flex items-center justify-between gap-3">
+                  <span>Expires after</span>
+                  <select
+                    value={String(expiresIn)}
+                    onChange={(e) =>
+                      setExpiresIn(
+                        e.target.value === 'null'
+                          ? null
+                          : Number(e.target.value),
+                      )
+                    }
+                    className="rounded-md border border-white/10 bg-black/40 px-2 py-1 text-gray-200 outline-none"
+                  >
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <option key={option.label} value={String(option.seconds)}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex cursor-pointer items-center gap-2 select-none">
+                  <input
+                    type="checkbox"
+                    checked={isPublic}
+                    onChange={(e) => setIsPublic(e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  Viewable without logging in
+                </label>
+                <button
+                  type="button"
+                  onClick={createLink}
+                  disabled={pending}
+                  className="flex w-full items-center justify-center gap-1.5 rounded-md bg-white px-2.5 py-1.5 font-semibold text-black transition-colors hover:bg-gray-200 disabled:opacity-60"
+                >
+                  {pending && <Loader2 className="h-3 w-3 animate-spin" />}
+                  Create link
+                </button>
+              </div>
+            )}
+            {error && <p className="mt-3 text-red-400">{error}</p>}
+          </Popover.Popup>
+        </Popover.Positioner>
+      </Popover.Portal>
+    </Popover.Root>
+  );
+}
@@ -0,0 +1,231 @@
+import clsx from 'clsx';
+import {
+  AlertCircle,
+  AlertTriangle,
+  Check,
+  CheckCircle2,
+  Image as ImageIcon,
+  type LucideIcon,
+  Paperclip,
+  Type,
+} from 'lucide-react';
+import type { MediaInfoResult } from 'mediainfo.js';
+import { type ReactNode, useMemo } from 'react';
+
+import { formatDuration } from '../services/media-summary';
+import {
+  type AttachmentKind,
+  type Chapter,
+  inspectTracks,
+  type StreamFlags,
+} from '../services/track-inspector';
+
+const ATTACHMENT_ICONS: Record<AttachmentKind, LucideIcon> = {
+  font: Type,
+  image: ImageIcon,
+  other: Paperclip,
+};
+
+const FLAG_COLUMNS: {
+  label: string;
+  title: string;
+  flag: keyof StreamFlags;
+}[] = [
+  { label: 'Default', title: 'Default', flag: 'isDefault' },
+  { label: 'Forced', title: 'Forced', flag: 'forced' },
+  { label: 'HI', title: 'Hearing impaired (SDH)', flag: 'hearingImpaired' },
+  { label: 'AD', title: 'Audio description', flag: 'audioDescription' },
+];
+
+// "1:02:03.450", chapters need more precision than formatDuration gives
+const formatTimestamp = (seconds: number) =>
+  `${formatDuration(Math.floor(seconds))}.${String(
+    Math.round((seconds % 1) * 1000),
+  ).padStart(3, '0')}`;
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="border-t border-white/5 px-4 py-3">
+      <h3 className="mb-2 text-[10px] font-bold tracking-wider text-gray-600 uppercase">
+        {title}
+      </h3>
+      {children}
+    </section>
+  );
+}
+
+function ChapterTimeline({
+  chapters,
+  duration,
+}: {
+  chapters: Chapter[];
+  duration: number | null;
+}) {
+  // Without a duration the last chapter's start is the best scale we have
+  const total = duration ?? chapters[chapters.length - 1].start;
+
+  return (
+    <>
+      {total > 0 && (
+        <div className="mb-3 flex h-6 w-full overflow-hidden rounded-md bg-white/5">
+          {chapters.map((chapter, index) => (
+            <div
+              key={index}
+              title={`${chapter.title} (${formatTimestamp(chapter.start)})`}
+              style={{
+                // A chapter past the end of the file gets no width
+                width: `${
+                  (Math.max(0, (chapter.end ?? total) - chapter.start) /
+                    total) *
+                  100
+                }%`,
+              }}
+              className={clsx(
+                'h-full border-r border-black/60 transition-colors hover:bg-blue-400/60',
+                index % 2 ? 'bg-blue-500/30' : 'bg-blue-500/50',
+              )}
+            />
+          ))}
+        </div>
+      )}
+      <ol className="space-y-0.5 font-mono text-[12px]">
+        {chapters.map((chapter, index) => (
+          <li key={index} className="flex gap-4">
+            <span className="w-24 shrink-0 text-gray-500">
+              {formatTimestamp(chapter.start)}
+            </span>
+            <span className="text-gray-300">{chapter.title || '—'}</span>
+            {chapter.language && (
+              <span className="text-gray-600">{chapter.language}</span>
+            )}
+          </li>
+        ))}
+      </ol>
+    </>
+  );
+}
+
+function FlagMatrix({ streams }: { streams: StreamFlags[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-xs">
+        <thead className="text-gray-500">
+          <tr>
+            <th className="py-1.5 pr-3 font-medium">Track</th>
+            <th className="px-3 py-1.5 font-medium">Language</th>
+            <th className="px-3 py-1.5 font-medium">Format</th>
+            <th className="px-3 py-1.5 font-medium">Title</th>
+            {FLAG_COLUMNS.map((column) => (
+              <th
+                key={column.flag}
+                title={column.title}
+                className="px-3 py-1.5 text-center font-medium"
+              >
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-white/5 text-gray-300">
+          {streams.map((stream) => (
+            <tr key={stream.track}>
+              <td className="py-1.5 pr-3 whitespace-nowrap">{stream.track}</td>
+              <td className="px-3 py-1.5 font-mono">
+                {stream.language ?? <span className="text-amber-400">—</span>}
+              </td>
+              <td className="px-3 py-1.5">{stream.format ?? '—'}</td>
+              <td className="max-w-[16rem] truncate px-3 py-1.5 text-gray-400">
+                {stream.title ?? '—'}
+              </td>
+              {FLAG_COLUMNS.map((column) => (
+                <td key={column.flag} className="px-3 py-1.5 text-center">
+                  {stream[column.flag] === true ? (
+                    <Check className="inline h-3.5 w-3.5 text-blue-400" />
+                  ) : stream[column.flag] === null ? (
+                    <span className="text-gray-700" title="Not signalled">
+                      ?
+                    </span>
+                  ) : (
+                    <span className="text-gray-700">·</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export function TrackInspector({ result }: { result: MediaInfoResult }) {
+  const inspection = useMemo(() => inspectTracks(result), [result]);
+  const { chapters, streams, attachments, issues } = inspection;
+
+  return (
+    <div className="max-h-[60vh] overflow-auto">
+      <div className="space-y-1.5 p-4">
+        {issues.length === 0 ? (
+          <p className="flex items-center gap-2 text-xs text-green-400">
+            <CheckCircle2 className="h-3.5 w-3.5" />
+            No track flag problems found
+          </p>
+        ) : (
+          issues.map((issue, index) => (
+            <p
+              key={index}
+              className={clsx(
+                'flex items-start gap-2 text-xs',
+                issue.severity === 'error' ? 'text-red-400' : 'text-amber-300',
+              )}
+            >
+              {issue.severity === 'error' ? (
+                <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+              )}
+              {issue.message}
+            </p>
+          ))
+        )}
+      </div>
+
+      <Section title={`Chapters (${chapters.length})`}>
+        {chapters.length > 0 ? (
+          <ChapterTimeline chapters={chapters} duration={inspection.duration} />
+        ) : (
+          <p className="text-xs text-gray-600">No chapters</p>
+        )}
+      </Section>
+
+      <Section title="Audio and subtitle flags">
+        {streams.length > 0 ? (
+          <FlagMatrix streams={streams} />
+        ) : (
+          <p className="text-xs text-gray-600">No audio or subtitle tracks</p>
+        )}
+      </Section>
+
+      <Section title={`Attachments (${attachments.length})`}>
+        {attachments.length > 0 ? (
+          <ul className="grid gap-1 sm:grid-cols-2">
+            {attachments.map((attachment, index) => {
+              const Icon = ATTACHMENT_ICONS[attachment.kind];
+              return (
+                <li
+                  key={index}
+                  className="flex items-center gap-2 font-mono text-[12px] text-gray-300"
+                >
+                  <Icon className="h-3.5 w-3.5 shrink-0 text-gray-500" />
+                  <span className="truncate">{attachment.name}</span>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-600">No attachments</p>
+        )}
+      </Section>
+    </div>
+  );
+}
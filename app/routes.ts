@@ -3,5 +3,9 @@ import { index, route, type RouteConfig } from '@react-router/dev/routes';
 export default [
   index('routes/_index.tsx'),
   route('login', 'routes/login.tsx'), // Added this line
+  route('logout', 'routes/logout.tsx'),
+  route('history', 'routes/history.tsx'),
+  route('r/:id', 'routes/share.tsx'),
+  route('admin/users', 'routes/admin.users.tsx'),
   { file: 'routes/home.tsx', path: 'home' },
 ] satisfies RouteConfig;
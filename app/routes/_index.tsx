@@ -1,5 +1,7 @@
-import type { MetaFunction } from 'react-router';
+import { History, LogOut, Users } from 'lucide-react';
 import { motion } from 'motion/react';
+import { Form, Link, type MetaFunction } from 'react-router';
+
 import { MediaForm } from '../components/media-form';
 import { requireUserSession } from '../services/session.server';
 import type { Route } from './+types/_index';
@@ -8,9 +10,9 @@ export const meta: MetaFunction = () => {
   return [{ title: 'MediaInfo' }];
 };
 
-export async function loader({ request }: Route.LoaderArgs) {
-  await requireUserSession(request);
-  return null;
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const user = await requireUserSession(request, context.cloudflare.env);
+  return { username: user.username, isAdmin: user.role === 'admin' };
 }
 
 // Animation variants for background elements
@@ -39,7 +41,7 @@ const pulseAnimation = {
   },
 };
 
-export default function Index() {
+export default function Index({ loaderData }: Route.ComponentProps) {
   return (
     <div className="relative flex min-h-screen w-full flex-col items-center overflow-hidden bg-black font-sans text-gray-200">
       
@@ -100,6 +102,36 @@ export default function Index() {
       {/* --- CONTENT LAYER --- */}
       <main className="relative z-10 mt-24 flex w-full max-w-6xl flex-col px-6 pb-20">
         
+        {/* Account & past analyses */}
+        <nav className="absolute -top-16 right-6 flex items-center gap-5 text-xs text-gray-500">
+          <Link
+            to="/history"
+            className="flex items-center gap-1.5 transition-colors hover:text-gray-200"
+          >
+            <History className="h-3.5 w-3.5" />
+            History
+          </Link>
+          {loaderData.isAdmin && (
+            <Link
+              to="/admin/users"
+              className="flex items-center gap-1.5 transition-colors hover:text-gray-200"
+            >
+              <Users className="h-3.5 w-3.5" />
+              Users
+            </Link>
+          )}
+          <Form method="post" action="/logout">
+            <button
+              type="submit"
+              title={`Signed in as ${loaderData.username}`}
+              className="flex items-center gap-1.5 transition-colors hover:text-gray-200"
+            >
+              <LogOut className="h-3.5 w-3.5" />
+              Sign out
+            </button>
+          </Form>
+        </nav>
+
         {/* Header */}
         <div className="mb-12 flex flex-col items-center text-center">
           {/* Logo Icon */}
@@ -131,7 +163,7 @@ export default function Index() {
             transition={{ delay: 0.2, duration: 0.8 }}
             className="mt-6 max-w-lg text-lg text-gray-400"
           >
-            Professional media analysis tool. Paste a URL to extract technical metadata instantly.
+            Professional media analysis tool. Paste a URL or drop a local file to extract technical metadata instantly.
           </motion.p>
         </div>
 
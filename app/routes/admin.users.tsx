@@ -0,0 +1,200 @@
+import { ArrowLeft, Loader2, Shield, Trash2, UserPlus } from 'lucide-react';
+import { motion } from 'motion/react';
+import { Form, Link, useNavigation } from 'react-router';
+
+import { requireAdmin } from '../services/session.server';
+import { getUserUsage } from '../services/usage.server';
+import {
+  createUser,
+  deleteUser,
+  listUsers,
+  type UserRole,
+} from '../services/users.server';
+import type { Route } from './+types/admin.users';
+
+export const meta: Route.MetaFunction = () => {
+  return [{ title: 'Users - MediaPeek' }];
+};
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const { env } = context.cloudflare;
+  const admin = await requireAdmin(request, env);
+  const users = await listUsers(env);
+  const usage = await Promise.all(
+    users.map((user) => getUserUsage(env, user.id)),
+  );
+  return {
+    users: users.map((user, i) => ({ ...user, usage: usage[i] })),
+    currentUserId: admin.id,
+  };
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const { env } = context.cloudflare;
+  const admin = await requireAdmin(request, env);
+  const formData = await request.formData();
+  const intent = formData.get('intent');
+
+  if (intent === 'delete') {
+    const id = String(formData.get('id') ?? '');
+    if (id === admin.id) {
+      return { error: "You can't delete your own account" };
+    }
+    await deleteUser(env, id);
+    return { error: null };
+  }
+
+  try {
+    await createUser(env, {
+      username: String(formData.get('username') ?? ''),
+      password: String(formData.get('password') ?? ''),
+      role: (formData.get('role') === 'admin' ? 'admin' : 'user') as UserRole,
+    });
+    return { error: null };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : 'Could not create user',
+    };
+  }
+}
+
+const inputClassName =
+  'w-full rounded-xl border border-white/10 bg-black/40 px-4 py-2.5 text-sm text-white placeholder-gray-500 outline-none transition-colors focus:border-blue-500/50';
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(0)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export default function AdminUsers({
+  loaderData,
+  actionData,
+}: Route.ComponentProps) {
+  const { users, currentUserId } = loaderData;
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === 'submitting';
+
+  return (
+    <div className="flex min-h-screen w-full flex-col items-center bg-black font-sans text-gray-200">
+      <main className="flex w-full max-w-3xl flex-col px-6 pt-16 pb-20">
+        <Link
+          to="/"
+          className="inline-flex items-center gap-1.5 text-xs text-gray-500 transition-colors hover:text-gray-200"
+        >
+          <ArrowLeft className="h-3.5 w-3.5" />
+          Back to analysis
+        </Link>
+        <h1 className="mt-4 text-4xl font-bold tracking-tight text-white">
+          Users
+        </h1>
+
+        <Form
+          method="post"
+          className="mt-8 grid gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 sm:grid-cols-[1fr_1fr_auto_auto]"
+        >
+          <input
+            name="username"
+            placeholder="Username"
+            autoComplete="off"
+            required
+            className={inputClassName}
+          />
+          <input
+            name="password"
+            type="password"
+            placeholder="Initial password"
+            autoComplete="new-password"
+            required
+            className={inputClassName}
+          />
+          <select name="role" defaultValue="user" className={inputClassName}>
+            <option value="user">User</option>
+            <option value="admin">Admin</option>
+          </select>
+          <button
+            type="submit"
+            name="intent"
+            value="create"
+            disabled={isSubmitting}
+            className="flex items-center justify-center gap-2 rounded-xl bg-white px-4 py-2.5 text-sm font-semibold text-black transition-transform active:scale-95 disabled:opacity-70"
+          >
+            {isSubmitting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <UserPlus className="h-4 w-4" />
+            )}
+            Add
+          </button>
+        </Form>
+
+        {actionData?.error && (
+          <motion.p
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            className="mt-3 text-sm font-medium text-red-400"
+          >
+            {actionData.error}
+          </motion.p>
+        )}
+
+        <ul className="mt-6 divide-y divide-white/5 overflow-hidden rounded-xl border border-white/10 bg-[#0F0F0F]">
+          {users.map((user) => (
+            <li key={user.id} className="flex items-center gap-3 px-4 py-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-3">
+                  <span className="font-mono text-sm text-gray-200">
+                    {user.username}
+                  </span>
+                  {user.role === 'admin' && (
+                    <span className="flex items-center gap-1 rounded-md bg-blue-500/10 px-2 py-0.5 text-[11px] text-blue-300">
+                      <Shield className="h-3 w-3" />
+                      admin
+                    </span>
+                  )}
+                </div>
+                {user.usage && (
+                  <p className="mt-1 truncate text-xs text-gray-500">
+                    Proxy today: {user.usage.day.requests} requests,{' '}
+                    {formatSize(user.usage.day.bytes)} · this minute:{' '}
+                    {user.usage.minute.requests} requests,{' '}
+                    {formatSize(user.usage.minute.bytes)}
+                    {Object.keys(user.usage.hosts).length > 0 && (
+                      <>
+                        {' · '}
+                        {Object.entries(user.usage.hosts)
+                          .sort(([, a], [, b]) => b.bytes - a.bytes)
+                          .slice(0, 3)
+                          .map(
+                            ([host, total]) =>
+                              `${host} (${formatSize(total.bytes)})`,
+                          )
+                          .join(', ')}
+                      </>
+                    )}
+                  </p>
+                )}
+              </div>
+              <span className="ml-auto shrink-0 text-xs text-gray-600">
+                {new Date(user.createdAt).toLocaleDateString()}
+              </span>
+              {user.id !== currentUserId && (
+                <Form method="post">
+                  <input type="hidden" name="id" value={user.id} />
+                  <button
+                    type="submit"
+                    name="intent"
+                    value="delete"
+                    title="Delete user"
+                    className="rounded-md p-1.5 text-gray-500 transition-colors hover:bg-red-500/10 hover:text-red-400"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </Form>
+              )}
+            </li>
+          ))}
+        </ul>
+      </main>
+    </div>
+  );
+}
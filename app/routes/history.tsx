@@ -0,0 +1,48 @@
+import { ArrowLeft } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { MetaFunction } from 'react-router';
+import { Link } from 'react-router';
+
+import { HistoryBrowser } from '../components/history-browser';
+import { requireUserSession } from '../services/session.server';
+import type { Route } from './+types/history';
+
+export const meta: MetaFunction = () => {
+  return [{ title: 'History - MediaInfo' }];
+};
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  await requireUserSession(request, context.cloudflare.env);
+  return null;
+}
+
+export default function History() {
+  return (
+    <div className="relative flex min-h-screen w-full flex-col items-center bg-black font-sans text-gray-200">
+      <main className="relative z-10 mt-16 flex w-full max-w-6xl flex-col px-6 pb-20">
+        <motion.div
+          initial={{ y: 20, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          transition={{ duration: 0.6 }}
+          className="mb-10"
+        >
+          <Link
+            to="/"
+            className="inline-flex items-center gap-1.5 text-xs text-gray-500 transition-colors hover:text-gray-200"
+          >
+            <ArrowLeft className="h-3.5 w-3.5" />
+            Back to analysis
+          </Link>
+          <h1 className="mt-4 text-4xl font-bold tracking-tight text-white">
+            History
+          </h1>
+          <p className="mt-3 text-gray-400">
+            Past analyses, kept so the same files never need fetching again.
+          </p>
+        </motion.div>
+
+        <HistoryBrowser />
+      </main>
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
-import { Form, useActionState, useNavigation } from 'react-router';
-import { motion } from 'motion/react';
 import { Loader2, Lock, User } from 'lucide-react';
-import type { Route } from './+types/login';
+import { motion } from 'motion/react';
+import { Form, useNavigation } from 'react-router';
+
 import { createUserSession } from '../services/session.server';
+import { verifyCredentials } from '../services/users.server';
+import type { Route } from './+types/login';
 
 export const meta: Route.MetaFunction = () => {
   return [{ title: 'Login - MediaPeek' }];
@@ -11,15 +13,14 @@ export const meta: Route.MetaFunction = () => {
 // Inside your action function
 export async function action({ request, context }: Route.ActionArgs) {
   const formData = await request.formData();
-  const username = formData.get('username');
-  const password = formData.get('password');
+  const username = String(formData.get('username') ?? '');
+  const password = String(formData.get('password') ?? '');
 
-  // Use variables from Cloudflare
-  const validUser = context.cloudflare.env.AUTH_USER;
-  const validPass = context.cloudflare.env.AUTH_PASS;
+  const { env } = context.cloudflare;
+  const user = await verifyCredentials(env, username, password);
 
-  if (username === validUser && password === validPass) {
-    return createUserSession('/');
+  if (user) {
+    return createUserSession(request, env, user, '/');
   }
 
   return { error: 'Invalid credentials' };
@@ -1,9 +1,10 @@
-import { type ActionFunctionArgs, redirect } from 'react-router';
+import { redirect } from 'react-router';
+
 import { logout } from '../services/session.server';
 import type { Route } from './+types/logout';
 
-export async function action({ request }: ActionFunctionArgs) {
-  return logout();
+export async function action({ request, context }: Route.ActionArgs) {
+  return logout(request, context.cloudflare.env);
 }
 
 export async function loader() {
@@ -0,0 +1,97 @@
+import { Clock, Globe, Lock, Trash2 } from 'lucide-react';
+import { Form, redirect, useSearchParams } from 'react-router';
+
+import { ReportPanel } from '../components/report-panel';
+import { getUserSession, requireUserSession } from '../services/session.server';
+import { getShare, revokeShare } from '../services/share.server';
+import type { Route } from './+types/share';
+
+export const meta: Route.MetaFunction = ({ data }) => {
+  return [
+    { title: data ? `${data.share.name} - MediaInfo` : 'MediaInfo' },
+    { name: 'robots', content: 'noindex' },
+  ];
+};
+
+export async function loader({ request, params, context }: Route.LoaderArgs) {
+  const { env } = context.cloudflare;
+  const share = env.SHARES ? await getShare(env.SHARES, params.id) : null;
+  if (!share) {
+    throw new Response('This link does not exist or has expired', {
+      status: 404,
+    });
+  }
+
+  // Private links need the login session, like the rest of the app
+  const user = share.isPublic
+    ? await getUserSession(request, env)
+    : await requireUserSession(request, env);
+
+  const { owner: _owner, ...publicFields } = share;
+  return {
+    share: publicFields,
+    canRevoke: user?.id === share.owner,
+  };
+}
+
+export async function action({ request, params, context }: Route.ActionArgs) {
+  const { env } = context.cloudflare;
+  const user = await requireUserSession(request, env);
+  if (env.SHARES) {
+    await revokeShare(env.SHARES, user.id, params.id);
+  }
+  return redirect('/');
+}
+
+export default function SharedReport({ loaderData }: Route.ComponentProps) {
+  const { share, canRevoke } = loaderData;
+  const [searchParams] = useSearchParams();
+  const VisibilityIcon = share.isPublic ? Globe : Lock;
+
+  return (
+    <div className="flex min-h-screen w-full flex-col items-center bg-black font-sans text-gray-200">
+      <main className="flex w-full max-w-6xl flex-col px-6 pt-16 pb-20">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-xs font-bold tracking-wider text-gray-600 uppercase">
+              Shared report
+            </p>
+            <h1 className="mt-2 truncate font-mono text-2xl font-semibold text-white">
+              {share.name}
+            </h1>
+            <div className="mt-3 flex flex-wrap items-center gap-4 text-xs text-gray-500">
+              <span className="flex items-center gap-1.5">
+                <VisibilityIcon className="h-3.5 w-3.5" />
+                {share.isPublic ? 'Public link' : 'Login required'}
+              </span>
+              <span className="flex items-center gap-1.5">
+                <Clock className="h-3.5 w-3.5" />
+                {share.expiresAt
+                  ? `Expires ${new Date(share.expiresAt).toLocaleString()}`
+                  : 'Never expires'}
+              </span>
+            </div>
+          </div>
+
+          {canRevoke && (
+            <Form method="post">
+              <button
+                type="submit"
+                className="flex items-center gap-1.5 rounded-md bg-red-500/10 px-3 py-2 text-xs font-medium text-red-400 transition-colors hover:bg-red-500/20"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+                Revoke link
+              </button>
+            </Form>
+          )}
+        </div>
+
+        <ReportPanel
+          analysis={share.analysis}
+          fileType={null}
+          format={searchParams.get('format') ?? 'text'}
+        />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// Max number of analyses running at the same time in a batch
+export const BATCH_CONCURRENCY = 3;
+
+// Pulls every http(s) URL out of a pasted list or an uploaded .txt/.csv.
+// One URL per line, or CSV cells; anything else (headers, notes) is ignored.
+export function parseUrlList(text: string): string[] {
+  const urls = text
+    .split(/[\r\n,;\t]+/)
+    .map((cell) => cell.trim().replace(/^["']|["']$/g, ''))
+    .filter((cell) => /^https?:\/\/\S+$/i.test(cell));
+
+  return Array.from(new Set(urls));
+}
+
+// Runs `task` over every item with at most `limit` in flight. A rejected
+// task doesn't stop the others; each outcome comes back in input order, like
+// Promise.allSettled. Once `signal` aborts, items not started yet are
+// rejected with its reason instead of being run.
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        signal?.throwIfAborted();
+        results[index] = {
+          status: 'fulfilled',
+          value: await task(items[index], index),
+        };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
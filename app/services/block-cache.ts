@@ -0,0 +1,174 @@
+// Block-aligned LRU cache in front of ranged reads. MediaInfo jumps around
+// (MP4 moov at the end, MKV cues, ...), so whole blocks are kept under a
+// memory cap, adjacent missing blocks are fetched with one request, and
+// concurrent reads of the same block share the request in flight.
+
+export interface BlockCacheStats {
+  // Network requests made and the bytes they returned
+  requests: number;
+  bytesFetched: number;
+  // Blocks read without (hits) and with (misses) a new request
+  hits: number;
+  misses: number;
+}
+
+export interface BlockCacheOptions {
+  size: number;
+  // Returns the bytes in [start, end)
+  fetchRange: (start: number, end: number) => Promise<Uint8Array>;
+  blockSize?: number;
+  maxBytes?: number;
+  // Extra blocks fetched past a miss, for sequential reads
+  readAhead?: number;
+}
+
+export interface BlockCache {
+  read: (size: number, offset: number) => Promise<Uint8Array>;
+  // Warms [start, end) in the background; failures are ignored
+  prefetch: (start: number, end: number) => void;
+  stats: BlockCacheStats;
+}
+
+export const cacheHitRatio = ({ hits, misses }: BlockCacheStats) =>
+  hits + misses > 0 ? hits / (hits + misses) : 0;
+
+export function createBlockCache({
+  size,
+  fetchRange,
+  blockSize = 1024 * 1024,
+  maxBytes = 64 * 1024 * 1024,
+  readAhead = 1,
+}: BlockCacheOptions): BlockCache {
+  // Map iteration order is insertion order, so the first entry is the LRU one
+  const blocks = new Map<number, Uint8Array>();
+  const pending = new Map<number, Promise<void>>();
+  let cachedBytes = 0;
+  const stats: BlockCacheStats = {
+    requests: 0,
+    bytesFetched: 0,
+    hits: 0,
+    misses: 0,
+  };
+  const lastBlock = Math.max(0, Math.ceil(size / blockSize) - 1);
+
+  const store = (index: number, data: Uint8Array) => {
+    const previous = blocks.get(index);
+    if (previous) {
+      cachedBytes -= previous.byteLength;
+      blocks.delete(index);
+    }
+    blocks.set(index, data);
+    cachedBytes += data.byteLength;
+
+    while (cachedBytes > maxBytes && blocks.size > 1) {
+      const [oldest, evicted] = blocks.entries().next().value!;
+      blocks.delete(oldest);
+      cachedBytes -= evicted.byteLength;
+    }
+  };
+
+  const touch = (index: number) => {
+    const data = blocks.get(index);
+    if (data) {
+      blocks.delete(index);
+      blocks.set(index, data);
+    }
+    return data;
+  };
+
+  // One request for blocks first..last
+  const fetchBlocks = (first: number, last: number) => {
+    const start = first * blockSize;
+    const end = Math.min(size, (last + 1) * blockSize);
+
+    const request = (async () => {
+      stats.requests++;
+      const data = await fetchRange(start, end);
+      stats.bytesFetched += data.byteLength;
+      for (let index = first; index <= last; index++) {
+        const offset = (index - first) * blockSize;
+        // Copy, so evicting a block actually frees its memory
+        const block = data.slice(offset, offset + blockSize);
+        if (block.byteLength > 0) store(index, block);
+      }
+    })();
+
+    const settle = () => {
+      for (let index = first; index <= last; index++) {
+        if (pending.get(index) === request) pending.delete(index);
+      }
+    };
+    request.then(settle, settle);
+    for (let index = first; index <= last; index++) {
+      pending.set(index, request);
+    }
+    return request;
+  };
+
+  // Starts requests for the missing blocks in first..last, merging runs
+  const ensure = (first: number, last: number) => {
+    const waits: Promise<void>[] = [];
+    let runStart = -1;
+    for (let index = first; index <= last + 1; index++) {
+      const missing =
+        index <= last && !blocks.has(index) && !pending.has(index);
+      if (missing && runStart < 0) runStart = index;
+      if (!missing && runStart >= 0) {
+        waits.push(fetchBlocks(runStart, index - 1));
+        runStart = -1;
+      }
+      const inFlight = index <= last && pending.get(index);
+      if (inFlight) waits.push(inFlight);
+    }
+    return Promise.all(waits);
+  };
+
+  const read = async (length: number, offset: number) => {
+    const end = Math.min(offset + length, size);
+    if (end <= offset) return new Uint8Array(0);
+
+    const first = Math.floor(offset / blockSize);
+    const last = Math.floor((end - 1) / blockSize);
+    for (let index = first; index <= last; index++) {
+      if (blocks.has(index)) stats.hits++;
+      else stats.misses++;
+    }
+
+    const result = new Uint8Array(end - offset);
+    // A block can get evicted while we wait on another, so retry once
+    for (let attempt = 0; ; attempt++) {
+      await ensure(first, Math.min(lastBlock, last + readAhead));
+
+      let complete = true;
+      for (let index = first; index <= last; index++) {
+        const data = touch(index);
+        if (!data) {
+          complete = false;
+          continue;
+        }
+        const blockStart = index * blockSize;
+        const from = Math.max(offset, blockStart);
+        const to = Math.min(end, blockStart + data.byteLength);
+        if (to > from) {
+          result.set(
+            data.subarray(from - blockStart, to - blockStart),
+            from - offset,
+          );
+        }
+      }
+      if (complete) return result;
+      if (attempt > 0) {
+        throw new Error('Upstream returned fewer bytes than requested');
+      }
+    }
+  };
+
+  const prefetch = (start: number, end: number) => {
+    if (end <= start) return;
+    const first = Math.floor(start / blockSize);
+    const last = Math.min(lastBlock, Math.floor((end - 1) / blockSize));
+    ensure(first, last).catch(() => {});
+  };
+
+  return { read, prefetch, stats };
+}
@@ -0,0 +1,322 @@
+import { type BlockCacheStats, createBlockCache } from './block-cache';
+import {
+  type DetectedFileType,
+  detectFileType,
+  DETECTION_METHOD_LABELS,
+  SNIFF_SIZE,
+} from './file-type';
+
+// Anything MediaInfo can read from: a remote URL or a local File/Blob.
+export interface ByteSource {
+  // The URL, or the local file name
+  name: string;
+  size: number;
+  fileType: DetectedFileType;
+  readChunk: (size: number, offset: number) => Promise<Uint8Array>;
+  // Set once the source fell back to streaming (see openUrlSource)
+  streaming?: StreamingState;
+  // Releases anything still open, e.g. a streamed response body
+  close?: () => void;
+  // Network and cache counters, for URL sources
+  stats?: BlockCacheStats;
+}
+
+export interface StreamingOptions {
+  // Bytes kept from the start of the file; reads past this come back empty
+  maxBytes: number;
+}
+
+export interface StreamingState extends StreamingOptions {
+  bytesRead: number;
+  // MediaInfo asked for data past what was kept
+  truncated: boolean;
+}
+
+const TAIL_PREFETCH_SIZE = 1024 * 1024;
+
+export interface UrlSourceOptions {
+  // Opt-in: when the upstream ignores Range, read the plain response front
+  // to back instead of failing
+  streaming?: StreamingOptions;
+  // Aborts every request made for this source, prefetches included
+  signal?: AbortSignal;
+  // What the block cache may hold, 64 MB by default
+  cacheBytes?: number;
+}
+
+// Fetches the upstream media URL. In the browser this goes through our proxy,
+// on the server (Worker) it can hit the upstream directly.
+export type UpstreamFetch = (
+  url: string,
+  init: RequestInit,
+) => Promise<Response>;
+
+// A ranged GET must come back as 206, anything else means the upstream
+// ignored the Range header and we'd end up downloading the whole file.
+export const assertPartialContent = (response: Response) => {
+  if (!response.ok) {
+    if (response.status !== 206) {
+      throw new Error(
+        `Expected Partial Content (206) but got ${response.status}. Upstream might not support Range requests.`,
+      );
+    }
+  } else if (response.status === 200) {
+    throw new Error(
+      'Upstream returned 200 OK (Full File) instead of 206 Partial Content. Aborting to prevent full download.',
+    );
+  }
+};
+
+// The proxy answers 429 once a rate limit or byte quota is used up. HTTP/2
+// drops status texts, so fall back to the body (not sent for HEAD).
+export const assertNotRateLimited = async (response: Response) => {
+  if (response.status !== 429) return;
+  const message =
+    response.statusText ||
+    (await response.text().catch(() => '')) ||
+    `Proxy rate limit exceeded. Try again in ${
+      response.headers.get('Retry-After') ?? '60'
+    }s.`;
+  throw new Error(message);
+};
+
+export const proxyFetch: UpstreamFetch = (url, init) =>
+  fetch(`/resources/proxy?url=${encodeURIComponent(url)}`, init);
+
+// Extra request headers the user may set for a protected upstream
+export const FORWARDED_HEADERS = [
+  'Authorization',
+  'Cookie',
+  'Referer',
+] as const;
+export type UpstreamHeaders = Partial<
+  Record<(typeof FORWARDED_HEADERS)[number], string>
+>;
+
+// Sent to the proxy as "X-Upstream-<Name>": a plain Cookie header would
+// carry our own session cookie, and the query string ends up in logs.
+export const UPSTREAM_HEADER_PREFIX = 'X-Upstream-';
+
+const originOf = (url: string) => {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+};
+
+// The headers belong to the URL the user entered. Manifests name variants and
+// segments on other hosts too, and those get none of them.
+export const proxyFetchWithHeaders = (
+  upstreamHeaders: UpstreamHeaders,
+  forUrl: string,
+): UpstreamFetch => {
+  const origin = originOf(forUrl);
+  return (url, init) => {
+    if (!origin || originOf(url) !== origin) return proxyFetch(url, init);
+    const headers = new Headers(init.headers);
+    for (const name of FORWARDED_HEADERS) {
+      const value = upstreamHeaders[name]?.trim();
+      if (value) headers.set(`${UPSTREAM_HEADER_PREFIX}${name}`, value);
+    }
+    return proxyFetch(url, { ...init, headers });
+  };
+};
+
+// Serves reads from a full (200) response body read sequentially. Everything
+// up to maxBytes is kept, so MediaInfo can still seek backwards; seeking past
+// it ends the analysis with whatever was parsed so far.
+const createStreamingReader = (
+  body: ReadableStream<Uint8Array>,
+  fileSize: number,
+  state: StreamingState,
+) => {
+  const reader = body.getReader();
+  let buffer = new Uint8Array(Math.min(state.maxBytes, 4 * 1024 * 1024));
+  let done = false;
+
+  const stop = () => {
+    if (done) return;
+    done = true;
+    void reader.cancel().catch(() => {});
+  };
+
+  const fill = async (end: number) => {
+    while (!done && state.bytesRead < end) {
+      const { value, done: finished } = await reader.read();
+      if (finished) {
+        done = true;
+        break;
+      }
+      const chunk = value.subarray(0, state.maxBytes - state.bytesRead);
+      if (state.bytesRead + chunk.length > buffer.length) {
+        const grown = new Uint8Array(
+          Math.min(
+            state.maxBytes,
+            Math.max(buffer.length * 2, state.bytesRead + chunk.length),
+          ),
+        );
+        grown.set(buffer.subarray(0, state.bytesRead));
+        buffer = grown;
+      }
+      buffer.set(chunk, state.bytesRead);
+      state.bytesRead += chunk.length;
+      if (state.bytesRead >= state.maxBytes) stop();
+    }
+  };
+
+  const readChunk = async (size: number, offset: number) => {
+    await fill(Math.min(offset + size, state.maxBytes));
+    const end = Math.min(offset + size, state.bytesRead);
+    if (end < Math.min(offset + size, fileSize)) state.truncated = true;
+    return offset < end ? buffer.slice(offset, end) : new Uint8Array(0);
+  };
+
+  return { readChunk, close: stop };
+};
+
+const describeDetection = (fileType: DetectedFileType) =>
+  `Detected ${fileType.container} (${fileType.kind}) via ${
+    DETECTION_METHOD_LABELS[fileType.method]
+  }${fileType.filename ? `: ${fileType.filename}` : ''}`;
+
+export async function openUrlSource(
+  url: string,
+  onStatus: (status: string) => void,
+  fetchUpstream: UpstreamFetch = proxyFetch,
+  options: UrlSourceOptions = {},
+): Promise<ByteSource> {
+  onStatus('Validating URL...');
+
+  // Perform HEAD request for validation
+  const { signal } = options;
+  const response = await fetchUpstream(url, { method: 'HEAD', signal });
+  await assertNotRateLimited(response);
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch metadata (HEAD): ${response.status} ${response.statusText}`,
+    );
+  }
+
+  // The HEAD response gives us the size, no need for a second request
+  const contentLength = response.headers.get('Content-Length');
+  if (!contentLength) {
+    throw new Error('Content-Length header missing');
+  }
+  const fileSize = parseInt(contentLength, 10);
+
+  let streaming: StreamingState | undefined;
+  let streamed: ReturnType<typeof createStreamingReader> | null = null;
+  let tailPrefetched = false;
+
+  const fetchRange = async (start: number, end: number) => {
+    onStatus(
+      `Net Fetch: ${start}-${end} (${((end - start) / 1024 / 1024).toFixed(
+        2,
+      )} MB)...`,
+    );
+
+    const response = await fetchUpstream(url, {
+      method: 'GET',
+      headers: {
+        Range: `bytes=${start}-${end - 1}`,
+      },
+      signal,
+    });
+
+    await assertNotRateLimited(response);
+
+    // No Range support: this response is the whole file from byte 0
+    if (response.status === 200 && options.streaming && response.body) {
+      if (streamed) {
+        // A concurrent read already switched over
+        await response.body.cancel();
+      } else {
+        streaming = { ...options.streaming, bytesRead: 0, truncated: false };
+        streamed = createStreamingReader(response.body, fileSize, streaming);
+        onStatus(
+          `Upstream ignores Range, streaming up to ${(
+            options.streaming.maxBytes /
+            1024 /
+            1024
+          ).toFixed(0)} MB...`,
+        );
+      }
+      return streamed.readChunk(end - start, start);
+    }
+
+    assertPartialContent(response);
+    const data = new Uint8Array(await response.arrayBuffer());
+
+    // Ranges work, so warm the tail where MP4 moov atoms, MKV cues and
+    // similar indexes tend to live while MediaInfo parses the head
+    if (!tailPrefetched) {
+      tailPrefetched = true;
+      if (fileSize > TAIL_PREFETCH_SIZE * 4) {
+        cache.prefetch(fileSize - TAIL_PREFETCH_SIZE, fileSize);
+      }
+    }
+    return data;
+  };
+
+  const cache = createBlockCache({
+    size: fileSize,
+    fetchRange,
+    maxBytes: options.cacheBytes,
+  });
+
+  const readChunk = async (
+    size: number,
+    offset: number,
+  ): Promise<Uint8Array> =>
+    streamed ? streamed.readChunk(size, offset) : cache.read(size, offset);
+
+  // Content-Disposition, URL path, Content-Type, then magic bytes. Sniffing
+  // goes through readChunk so the first block is cached for MediaInfo.
+  const fileType = await detectFileType({
+    url,
+    contentDisposition: response.headers.get('Content-Disposition'),
+    contentType: response.headers.get('Content-Type'),
+    readHead: () => readChunk(SNIFF_SIZE, 0),
+  });
+  onStatus(describeDetection(fileType));
+
+  return {
+    name: url,
+    size: fileSize,
+    fileType,
+    readChunk,
+    // Only known once the first ranged read comes back
+    get streaming() {
+      return streaming;
+    },
+    close: () => streamed?.close(),
+    stats: cache.stats,
+  };
+}
+
+// Reads a local File/Blob with slice(), nothing leaves the browser.
+export async function openFileSource(
+  file: Blob,
+  onStatus: (status: string) => void,
+): Promise<ByteSource> {
+  const filename = file instanceof File ? file.name : null;
+
+  const readChunk = async (size: number, offset: number): Promise<Uint8Array> =>
+    new Uint8Array(await file.slice(offset, offset + size).arrayBuffer());
+
+  const fileType = await detectFileType({
+    filename,
+    contentType: file.type || null,
+    readHead: () => readChunk(SNIFF_SIZE, 0),
+  });
+  onStatus(describeDetection(fileType));
+
+  return {
+    name: filename ?? 'blob',
+    size: file.size,
+    fileType,
+    readChunk,
+  };
+}
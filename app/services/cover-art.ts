@@ -0,0 +1,81 @@
+import type { MediaInfoResult } from 'mediainfo.js';
+
+import { mediaBaseName } from './download';
+
+export interface CoverImage {
+  data: Uint8Array<ArrayBuffer>;
+  mimeType: string;
+  // Cover_Type / Cover_Description, e.g. "Cover (front)"
+  label: string | null;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+};
+
+// MediaInfo joins multiple values with " / "
+const splitValues = (value: string | undefined) =>
+  value ? value.split(' / ').map((part) => part.trim()) : [];
+
+const decodeBase64 = (value: string) => {
+  const binary = atob(value.replace(/\s+/g, ''));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Trust the bytes over Cover_Mime, which is often missing or generic
+const sniffImageType = (data: Uint8Array, fallback?: string) => {
+  if (data[0] === 0xff && data[1] === 0xd8) return 'image/jpeg';
+  if (data[0] === 0x89 && data[1] === 0x50 && data[2] === 0x4e) {
+    return 'image/png';
+  }
+  if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) {
+    return 'image/gif';
+  }
+  if (data[0] === 0x42 && data[1] === 0x4d) return 'image/bmp';
+  if (
+    data[8] === 0x57 &&
+    data[9] === 0x45 &&
+    data[10] === 0x42 &&
+    data[11] === 0x50
+  ) {
+    return 'image/webp';
+  }
+  return fallback?.startsWith('image/') ? fallback : 'image/jpeg';
+};
+
+// Decodes the artwork of an analysis run with coverData enabled
+export function extractCovers(result: MediaInfoResult): CoverImage[] {
+  const covers: CoverImage[] = [];
+  for (const track of result.media?.track ?? []) {
+    if (!('Cover_Data' in track) || !track.Cover_Data) continue;
+    const mimeTypes = splitValues(track.Cover_Mime);
+    const labels = splitValues(track.Cover_Type ?? track.Cover_Description);
+
+    splitValues(track.Cover_Data).forEach((encoded, i) => {
+      try {
+        const data = decodeBase64(encoded);
+        if (data.length === 0) return;
+        covers.push({
+          data,
+          mimeType: sniffImageType(data, mimeTypes[i]),
+          label: labels[i] || null,
+        });
+      } catch {
+        // Not valid base64, nothing to show
+      }
+    });
+  }
+  return covers;
+}
+
+// "movie.mkv" → "movie-cover-1.jpg"
+export const coverFilename = (name: string, index: number, cover: CoverImage) =>
+  `${mediaBaseName(name)}-cover-${index + 1}.${
+    EXTENSIONS[cover.mimeType] ?? 'img'
+  }`;
@@ -0,0 +1,59 @@
+// Saves content as a file through a temporary object URL
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export const downloadText = (
+  content: string,
+  filename: string,
+  mimeType = 'text/plain',
+) =>
+  downloadBlob(
+    new Blob([content], { type: `${mimeType};charset=utf-8` }),
+    filename,
+  );
+
+// "movie.mkv" or ".../movie.mkv?sig=..." → "movie", the base for file names
+export const mediaBaseName = (name: string) => {
+  const file = name.split(/[?#]/)[0].split('/').pop() ?? '';
+  return file.replace(/\.[^.]+$/, '') || 'media';
+};
+
+const serializeSvg = (svg: SVGSVGElement) =>
+  new XMLSerializer().serializeToString(svg);
+
+export const downloadSvg = (svg: SVGSVGElement, filename: string) =>
+  downloadText(serializeSvg(svg), filename, 'image/svg+xml');
+
+// Rasterizes through an <img>, so the SVG must not depend on page styles
+export function downloadSvgAsPng(
+  svg: SVGSVGElement,
+  filename: string,
+  scale = 2,
+) {
+  const { width, height } = svg.viewBox.baseVal;
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    canvas.toBlob((blob) => {
+      if (blob) downloadBlob(blob, filename);
+    }, 'image/png');
+  };
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+    serializeSvg(svg),
+  )}`;
+}
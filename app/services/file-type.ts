@@ -0,0 +1,317 @@
+export type MediaKind = 'video' | 'audio' | 'image';
+
+// How the container was identified, in the order we try them
+export type DetectionMethod =
+  | 'filename'
+  | 'content-disposition'
+  | 'url-path'
+  | 'content-type'
+  | 'magic-bytes';
+
+export const DETECTION_METHOD_LABELS: Record<DetectionMethod, string> = {
+  filename: 'File name',
+  'content-disposition': 'Content-Disposition',
+  'url-path': 'URL path',
+  'content-type': 'Content-Type',
+  'magic-bytes': 'Magic bytes',
+};
+
+export interface ContainerType {
+  container: string;
+  kind: MediaKind;
+}
+
+export interface DetectedFileType extends ContainerType {
+  method: DetectionMethod;
+  filename: string | null;
+}
+
+// Number of leading bytes needed by sniffContainer()
+export const SNIFF_SIZE = 4096;
+
+const video = (container: string): ContainerType => ({
+  container,
+  kind: 'video',
+});
+const audio = (container: string): ContainerType => ({
+  container,
+  kind: 'audio',
+});
+const image = (container: string): ContainerType => ({
+  container,
+  kind: 'image',
+});
+
+export const SUPPORTED_EXTENSIONS: Record<string, ContainerType> = {
+  // Video
+  mkv: video('Matroska'),
+  mp4: video('MPEG-4'),
+  avi: video('AVI'),
+  mov: video('QuickTime'),
+  webm: video('WebM'),
+  flv: video('Flash Video'),
+  wmv: video('ASF'),
+  m4v: video('MPEG-4'),
+  '3gp': video('3GPP'),
+  ts: video('MPEG-TS'),
+  mts: video('BDAV'),
+  m2ts: video('BDAV'),
+  vob: video('MPEG-PS'),
+  ogv: video('Ogg'),
+  // Audio
+  mp3: audio('MPEG Audio'),
+  wav: audio('Wave'),
+  aac: audio('ADTS'),
+  flac: audio('FLAC'),
+  ogg: audio('Ogg'),
+  m4a: audio('MPEG-4'),
+  wma: audio('ASF'),
+  alac: audio('MPEG-4'),
+  opus: audio('Ogg'),
+  mid: audio('MIDI'),
+  midi: audio('MIDI'),
+  // Image
+  jpg: image('JPEG'),
+  jpeg: image('JPEG'),
+  png: image('PNG'),
+  gif: image('GIF'),
+  bmp: image('BMP'),
+  webp: image('WebP'),
+  svg: image('SVG'),
+  tiff: image('TIFF'),
+  ico: image('ICO'),
+  heic: image('HEIF'),
+};
+
+const SUPPORTED_MIME_TYPES: Record<string, ContainerType> = {
+  'video/mp4': video('MPEG-4'),
+  'video/x-m4v': video('MPEG-4'),
+  'video/x-matroska': video('Matroska'),
+  'video/webm': video('WebM'),
+  'video/quicktime': video('QuickTime'),
+  'video/x-msvideo': video('AVI'),
+  'video/avi': video('AVI'),
+  'video/x-flv': video('Flash Video'),
+  'video/x-ms-wmv': video('ASF'),
+  'video/x-ms-asf': video('ASF'),
+  'video/mp2t': video('MPEG-TS'),
+  'video/3gpp': video('3GPP'),
+  'video/ogg': video('Ogg'),
+  'video/mpeg': video('MPEG-PS'),
+  'audio/mpeg': audio('MPEG Audio'),
+  'audio/mp3': audio('MPEG Audio'),
+  'audio/wav': audio('Wave'),
+  'audio/wave': audio('Wave'),
+  'audio/x-wav': audio('Wave'),
+  'audio/aac': audio('ADTS'),
+  'audio/flac': audio('FLAC'),
+  'audio/x-flac': audio('FLAC'),
+  'audio/ogg': audio('Ogg'),
+  'audio/opus': audio('Ogg'),
+  'audio/mp4': audio('MPEG-4'),
+  'audio/x-m4a': audio('MPEG-4'),
+  'audio/x-ms-wma': audio('ASF'),
+  'audio/midi': audio('MIDI'),
+  'audio/x-midi': audio('MIDI'),
+  'image/jpeg': image('JPEG'),
+  'image/png': image('PNG'),
+  'image/gif': image('GIF'),
+  'image/bmp': image('BMP'),
+  'image/webp': image('WebP'),
+  'image/svg+xml': image('SVG'),
+  'image/tiff': image('TIFF'),
+  'image/x-icon': image('ICO'),
+  'image/vnd.microsoft.icon': image('ICO'),
+  'image/heic': image('HEIF'),
+  'image/heif': image('HEIF'),
+};
+
+// Helper to extract filename from Content-Disposition
+export const getFilenameFromHeader = (header: string | null): string | null => {
+  if (!header) return null;
+
+  // RFC 5987 form (filename*=UTF-8''name.mkv) takes precedence
+  const extended = /filename\*=(?:[\w-]+)?'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim());
+    } catch {
+      // Fall through to the plain filename
+    }
+  }
+
+  const matches = /filename="?([^";]+)"?/i.exec(header);
+  return matches ? matches[1].trim() : null;
+};
+
+// Last non-empty path segment of a URL, e.g. "video.mkv"
+export const getFilenameFromUrl = (url: string): string | null => {
+  try {
+    const segment = new URL(url, 'http://localhost').pathname
+      .split('/')
+      .filter(Boolean)
+      .pop();
+    return segment ? decodeURIComponent(segment) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const getExtension = (filename: string): string | null => {
+  const dot = filename.lastIndexOf('.');
+  if (dot === -1 || dot === filename.length - 1) return null;
+  return filename.slice(dot + 1).toLowerCase();
+};
+
+const containerFromFilename = (
+  filename: string | null,
+): ContainerType | null => {
+  const extension = filename ? getExtension(filename) : null;
+  return extension ? (SUPPORTED_EXTENSIONS[extension] ?? null) : null;
+};
+
+const containerFromMimeType = (
+  contentType: string | null,
+): ContainerType | null => {
+  if (!contentType) return null;
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  return SUPPORTED_MIME_TYPES[mimeType] ?? null;
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  bytes.length >= offset + signature.length &&
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+// Identifies the container from the first bytes of the file
+export const sniffContainer = (bytes: Uint8Array): ContainerType | null => {
+  // EBML header
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return ascii(bytes, 0, 64).includes('webm')
+      ? video('WebM')
+      : video('Matroska');
+  }
+
+  // ISO base media (ftyp box)
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (brand === 'qt  ') return video('QuickTime');
+    if (['M4A ', 'M4B ', 'M4P '].includes(brand)) return audio('MPEG-4');
+    if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return image('HEIF');
+    if (brand.startsWith('3g')) return video('3GPP');
+    return video('MPEG-4');
+  }
+
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const form = ascii(bytes, 8, 4);
+    if (form === 'AVI ') return video('AVI');
+    if (form === 'WAVE') return audio('Wave');
+    if (form === 'WEBP') return image('WebP');
+  }
+
+  if (ascii(bytes, 0, 3) === 'ID3') return audio('MPEG Audio');
+  if (ascii(bytes, 0, 4) === 'fLaC') return audio('FLAC');
+  if (ascii(bytes, 0, 4) === 'OggS') {
+    return ascii(bytes, 0, 256).includes('theora')
+      ? video('Ogg')
+      : audio('Ogg');
+  }
+  if (ascii(bytes, 0, 3) === 'FLV') return video('Flash Video');
+  if (ascii(bytes, 0, 4) === 'MThd') return audio('MIDI');
+
+  // ASF header GUID
+  if (startsWith(bytes, [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11])) {
+    return video('ASF');
+  }
+
+  // MPEG-PS pack header
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0xba])) return video('MPEG-PS');
+
+  // MPEG-TS (188 byte packets) and BDAV (192 byte packets) sync bytes
+  if (bytes[0] === 0x47 && bytes[188] === 0x47 && bytes[376] === 0x47) {
+    return video('MPEG-TS');
+  }
+  if (bytes[4] === 0x47 && bytes[196] === 0x47 && bytes[388] === 0x47) {
+    return video('BDAV');
+  }
+
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return image('PNG');
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return image('JPEG');
+  if (['GIF87a', 'GIF89a'].includes(ascii(bytes, 0, 6))) return image('GIF');
+  if (
+    startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return image('TIFF');
+  }
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return image('ICO');
+  if (ascii(bytes, 0, 2) === 'BM') return image('BMP');
+  if (/^\s*(<\?xml[^>]*>\s*)?<svg/i.test(ascii(bytes, 0, 256))) {
+    return image('SVG');
+  }
+
+  // Raw elementary streams: ADTS (AAC) and MPEG audio frame sync
+  if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return audio('ADTS');
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) {
+    return audio('MPEG Audio');
+  }
+
+  return null;
+};
+
+interface DetectFileTypeInput {
+  // Name of a local file
+  filename?: string | null;
+  url?: string;
+  contentDisposition?: string | null;
+  contentType: string | null;
+  readHead: () => Promise<Uint8Array>;
+}
+
+// Layered detection: the local file name or Content-Disposition, then the
+// URL path, then the Content-Type and finally the file's magic bytes.
+export async function detectFileType({
+  filename: localFilename = null,
+  url,
+  contentDisposition = null,
+  contentType,
+  readHead,
+}: DetectFileTypeInput): Promise<DetectedFileType> {
+  const headerFilename = getFilenameFromHeader(contentDisposition);
+  const urlFilename = url ? getFilenameFromUrl(url) : null;
+  const filename = localFilename ?? headerFilename ?? urlFilename;
+
+  const fromLocalFile = containerFromFilename(localFilename);
+  if (fromLocalFile) {
+    return { ...fromLocalFile, method: 'filename', filename };
+  }
+
+  const fromHeader = containerFromFilename(headerFilename);
+  if (fromHeader) {
+    return { ...fromHeader, method: 'content-disposition', filename };
+  }
+
+  const fromUrl = containerFromFilename(urlFilename);
+  if (fromUrl) {
+    return { ...fromUrl, method: 'url-path', filename };
+  }
+
+  const fromMimeType = containerFromMimeType(contentType);
+  if (fromMimeType) {
+    return { ...fromMimeType, method: 'content-type', filename };
+  }
+
+  const fromMagic = sniffContainer(await readHead());
+  if (fromMagic) {
+    return { ...fromMagic, method: 'magic-bytes', filename };
+  }
+
+  const extension = filename ? getExtension(filename) : null;
+  throw new Error(
+    extension
+      ? `Unsupported file type: ".${extension}". Only Video, Audio, and Image files are allowed.`
+      : 'Cannot determine file type from headers, URL or file contents. Only Video, Audio, and Image files are allowed.',
+  );
+}
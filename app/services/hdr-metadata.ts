@@ -0,0 +1,291 @@
+import type { MediaInfoResult, VideoTrack } from 'mediainfo.js';
+
+import { getTracks, trackTitle } from './media-summary';
+
+export type HdrFormat =
+  | 'Dolby Vision'
+  | 'HDR10+'
+  | 'HDR10'
+  // PQ without static metadata: HDR10 in all but name
+  | 'PQ'
+  | 'HLG'
+  | 'SDR';
+
+export interface MasteringDisplay {
+  primaries: string | null;
+  // cd/m²
+  minLuminance: number | null;
+  maxLuminance: number | null;
+}
+
+export interface DolbyVision {
+  // "8.1": profile 8, HDR10 compatible base layer
+  profile: string | null;
+  level: string | null;
+  // e.g. "BL+RPU"
+  layers: string | null;
+  compatibility: string | null;
+}
+
+export interface HdrIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface HdrReport {
+  // e.g. "Video #2"
+  track: string;
+  // Most capable first: Dolby Vision with an HDR10 base is both
+  formats: HdrFormat[];
+  transfer: string | null;
+  primaries: string | null;
+  matrix: string | null;
+  range: string | null;
+  bitDepth: number | null;
+  mastering: MasteringDisplay | null;
+  // cd/m²
+  maxCll: number | null;
+  maxFall: number | null;
+  dolbyVision: DolbyVision | null;
+  issues: HdrIssue[];
+}
+
+// MediaInfo lists one entry per HDR layer, " / " separated
+const layers = (value: string | undefined) =>
+  value ? value.split(' / ').map((part) => part.trim()) : [];
+
+// "1000 cd/m2"
+const parseLuminance = (value: string | undefined) => {
+  const number = value ? parseFloat(value) : NaN;
+  return Number.isFinite(number) ? number : null;
+};
+
+// "min: 0.0050 cd/m2, max: 1000 cd/m2"
+const parseMastering = (track: VideoTrack): MasteringDisplay | null => {
+  const luminance = track.MasteringDisplay_Luminance;
+  if (!luminance && !track.MasteringDisplay_ColorPrimaries) return null;
+  const min = luminance?.match(/min:\s*([\d.]+)/);
+  const max = luminance?.match(/max:\s*([\d.]+)/);
+  return {
+    primaries: track.MasteringDisplay_ColorPrimaries ?? null,
+    minLuminance: min ? Number(min[1]) : null,
+    maxLuminance: max ? Number(max[1]) : null,
+  };
+};
+
+// "dvhe.08" + compatibility "HDR10" → "8.1"
+const DV_COMPATIBILITY_IDS: Record<string, string> = {
+  HDR10: '1',
+  SDR: '2',
+  'Blu-ray': '1',
+  HLG: '4',
+};
+
+const parseDolbyVision = (track: VideoTrack): DolbyVision | null => {
+  const formats = layers(track.HDR_Format);
+  const index = formats.findIndex((format) =>
+    format.startsWith('Dolby Vision'),
+  );
+  if (index === -1) return null;
+
+  const at = (value: string | undefined) => layers(value)[index] || null;
+  const codecProfile = at(track.HDR_Format_Profile);
+  const compatibility = at(track.HDR_Format_Compatibility);
+  const profileNumber = codecProfile?.match(/\.(\d+)/)?.[1];
+  const compatibilityId = compatibility
+    ? DV_COMPATIBILITY_IDS[compatibility]
+    : undefined;
+
+  return {
+    profile: profileNumber
+      ? `${Number(profileNumber)}${
+          compatibilityId && Number(profileNumber) === 8
+            ? `.${compatibilityId}`
+            : ''
+        }`
+      : codecProfile,
+    level: at(track.HDR_Format_Level),
+    layers: at(track.HDR_Format_Settings),
+    compatibility,
+  };
+};
+
+const readString = (track: VideoTrack, field: string) =>
+  (track as unknown as Record<string, string | undefined>)[field];
+
+// Fields MediaInfo reports twice when container and stream disagree
+const SIGNALLED_FIELDS: [field: string, label: string][] = [
+  ['transfer_characteristics', 'Transfer characteristics'],
+  ['colour_primaries', 'Colour primaries'],
+  ['matrix_coefficients', 'Matrix coefficients'],
+  ['MasteringDisplay_Luminance', 'Mastering display luminance'],
+  ['MaxCLL', 'MaxCLL'],
+  ['MaxFALL', 'MaxFALL'],
+];
+
+const classify = (
+  track: VideoTrack,
+  transfer: string | null,
+  mastering: MasteringDisplay | null,
+  maxCll: number | null,
+  dolbyVision: DolbyVision | null,
+): HdrFormat[] => {
+  const formats: HdrFormat[] = [];
+  const hdrFormats = layers(track.HDR_Format);
+  const compatibility = layers(track.HDR_Format_Compatibility).join(' ');
+
+  if (dolbyVision) formats.push('Dolby Vision');
+  if (
+    hdrFormats.some((format) => format.startsWith('SMPTE ST 2094 App 4')) ||
+    compatibility.includes('HDR10+')
+  ) {
+    formats.push('HDR10+');
+  }
+  if (transfer === 'PQ') {
+    formats.push(mastering || maxCll !== null ? 'HDR10' : 'PQ');
+  }
+  if (transfer === 'HLG') formats.push('HLG');
+  return formats.length > 0 ? formats : ['SDR'];
+};
+
+const checkSignalling = (report: Omit<HdrReport, 'issues'>): HdrIssue[] => {
+  const issues: HdrIssue[] = [];
+  const error = (message: string) =>
+    issues.push({ severity: 'error', message });
+  const warning = (message: string) =>
+    issues.push({ severity: 'warning', message });
+
+  const { formats, transfer, primaries, mastering, maxCll, maxFall } = report;
+  const isHdr = formats[0] !== 'SDR';
+  const isPq = transfer === 'PQ';
+  // Profile 5 carries IPTPQc2, its colour description is not BT.2020
+  const dvProfile5 = report.dolbyVision?.profile?.startsWith('5') ?? false;
+
+  if (!isHdr) return issues;
+
+  if (!transfer && !dvProfile5) {
+    error('HDR metadata present but no transfer characteristics signalled');
+  }
+  if (formats.includes('HDR10+') && !isPq) {
+    error(
+      `HDR10+ metadata with a ${transfer ?? 'missing'} transfer, expected PQ`,
+    );
+  }
+
+  if (isPq) {
+    if (!mastering) {
+      warning('PQ without mastering display metadata (SMPTE ST 2086)');
+    }
+    if (maxCll === null || maxFall === null) {
+      warning('PQ without MaxCLL/MaxFALL content light levels');
+    }
+  }
+
+  if (!dvProfile5) {
+    if (primaries && primaries !== 'BT.2020') {
+      error(`HDR transfer with ${primaries} primaries, expected BT.2020`);
+    } else if (!primaries && transfer) {
+      warning('No colour primaries signalled');
+    }
+    if (report.matrix && !report.matrix.startsWith('BT.2020')) {
+      warning(`${report.matrix} matrix coefficients, expected BT.2020`);
+    }
+  }
+
+  if (report.bitDepth !== null && report.bitDepth < 10) {
+    error(`${report.bitDepth}-bit video cannot carry HDR properly`);
+  }
+  if (report.range === 'Full') {
+    warning('Full range signalled; HDR deliveries are normally limited range');
+  }
+
+  if (mastering) {
+    const { minLuminance: min, maxLuminance: max } = mastering;
+    if (min !== null && max !== null && min >= max) {
+      error(`Mastering display minimum (${min}) is not below its maximum`);
+    }
+    if (max !== null && maxCll !== null && maxCll > max) {
+      warning(
+        `MaxCLL (${maxCll} cd/m²) exceeds the mastering display peak (${max} cd/m²)`,
+      );
+    }
+  }
+  if (maxCll !== null && maxFall !== null && maxFall > maxCll) {
+    error(`MaxFALL (${maxFall}) is above MaxCLL (${maxCll})`);
+  }
+  if (maxCll === 0 && maxFall === 0 && isPq) {
+    warning('MaxCLL and MaxFALL are both 0 (unknown)');
+  }
+
+  const dv = report.dolbyVision;
+  if (dv) {
+    if (!dv.profile) warning('Dolby Vision without a profile');
+    if (!dv.level) warning('Dolby Vision without a level');
+    if (dv.profile === '8.1' && !mastering) {
+      warning(
+        'Dolby Vision 8.1 claims an HDR10 base layer, but it has no mastering display metadata',
+      );
+    }
+    if (dv.profile === '8.4' && transfer !== 'HLG') {
+      error('Dolby Vision 8.4 needs an HLG base layer');
+    }
+  }
+
+  return issues;
+};
+
+const analyzeTrack = (
+  track: VideoTrack,
+  index: number,
+  count: number,
+): HdrReport => {
+  const mastering = parseMastering(track);
+  const maxCll = parseLuminance(track.MaxCLL);
+  const dolbyVision = parseDolbyVision(track);
+  // HLG is often signalled as BT.2020 with HLG as the alternative transfer
+  const isHlg = [
+    track.transfer_characteristics,
+    track.transfer_characteristics_Original,
+  ].includes('HLG');
+  const transfer = isHlg ? 'HLG' : (track.transfer_characteristics ?? null);
+
+  const report = {
+    track: trackTitle(track, index, count),
+    formats: classify(track, transfer, mastering, maxCll, dolbyVision),
+    transfer,
+    primaries: track.colour_primaries ?? null,
+    matrix: track.matrix_coefficients ?? null,
+    range: track.colour_range ?? null,
+    bitDepth: track.BitDepth ?? null,
+    mastering,
+    maxCll,
+    maxFall: parseLuminance(track.MaxFALL),
+    dolbyVision,
+  };
+
+  const issues = checkSignalling(report);
+  for (const [field, label] of SIGNALLED_FIELDS) {
+    const value = readString(track, field);
+    const original = readString(track, `${field}_Original`);
+    if (field === 'transfer_characteristics' && isHlg) continue;
+    if (original && value && original !== value) {
+      const source = readString(track, `${field}_Source`) ?? 'container';
+      const originalSource =
+        readString(track, `${field}_Original_Source`) ?? 'stream';
+      issues.push({
+        severity: 'warning',
+        message: `${label} mismatch: ${value} (${source}) vs ${original} (${originalSource})`,
+      });
+    }
+  }
+
+  return { ...report, issues };
+};
+
+// One report per video track, from the object output
+export function analyzeHdr(result: MediaInfoResult): HdrReport[] {
+  const tracks = getTracks(result, 'Video');
+  return tracks.map((track, index) =>
+    analyzeTrack(track, index, tracks.length),
+  );
+}
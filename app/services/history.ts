@@ -0,0 +1,181 @@
+import type { ByteSource } from './byte-source';
+import type { MultiFormatResult } from './mediainfo';
+
+// What the history list shows; the full result is loaded on demand
+export interface HistorySummary {
+  id: string;
+  // Null for local files, which can't be re-run without picking them again
+  url: string | null;
+  filename: string;
+  size: number;
+  format: string;
+  container: string | null;
+  // Epoch milliseconds
+  createdAt: number;
+}
+
+export interface HistoryEntry extends HistorySummary {
+  analysis: MultiFormatResult;
+}
+
+// Local storage is the baseline. When the Worker has a HISTORY store bound,
+// entries follow the user across browsers instead.
+export interface HistoryStore {
+  kind: 'local' | 'remote';
+  list: () => Promise<HistorySummary[]>;
+  get: (id: string) => Promise<HistoryEntry | null>;
+  save: (entry: HistoryEntry) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+// Also the cap for the server store, see workers/history.ts
+export const MAX_HISTORY_ENTRIES = 100;
+
+export const toSummary = ({
+  analysis: _analysis,
+  ...summary
+}: HistoryEntry): HistorySummary => summary;
+
+export const createHistoryEntry = (
+  source: ByteSource,
+  url: string | null,
+  format: string,
+  analysis: MultiFormatResult,
+): HistoryEntry => ({
+  id: crypto.randomUUID(),
+  url,
+  filename: source.fileType.filename ?? source.name,
+  size: source.size,
+  format,
+  container: source.fileType.container,
+  createdAt: Date.now(),
+  analysis,
+});
+
+// Per account: browsers are shared, and history holds URLs
+const indexKey = (owner: string) => `mediapeek:history:${owner}`;
+const entryKey = (owner: string, id: string) =>
+  `mediapeek:history:${owner}:${id}`;
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+export const localHistoryStore = (owner: string): HistoryStore => {
+  const readIndex = (): HistorySummary[] => {
+    try {
+      return JSON.parse(localStorage.getItem(indexKey(owner)) ?? '[]');
+    } catch {
+      return [];
+    }
+  };
+
+  const writeIndex = (index: HistorySummary[]) =>
+    localStorage.setItem(indexKey(owner), JSON.stringify(index));
+
+  return {
+    kind: 'local',
+    list: async () => readIndex(),
+    get: async (id) => {
+      const stored = localStorage.getItem(entryKey(owner, id));
+      return stored ? (JSON.parse(stored) as HistoryEntry) : null;
+    },
+    save: async (entry) => {
+      const index = [
+        toSummary(entry),
+        ...readIndex().filter((item) => item.id !== entry.id),
+      ];
+      for (const dropped of index.splice(MAX_HISTORY_ENTRIES)) {
+        localStorage.removeItem(entryKey(owner, dropped.id));
+      }
+
+      // Reports can be large; make room by dropping the oldest entries
+      let saved = false;
+      try {
+        for (;;) {
+          try {
+            localStorage.setItem(
+              entryKey(owner, entry.id),
+              JSON.stringify(entry),
+            );
+            saved = true;
+            break;
+          } catch (error) {
+            const oldest = index.length > 1 ? index.pop() : undefined;
+            if (!isQuotaError(error) || !oldest) throw error;
+            localStorage.removeItem(entryKey(owner, oldest.id));
+          }
+        }
+      } finally {
+        // Entries may be gone already, the index has to say so either way
+        writeIndex(
+          saved ? index : index.filter((item) => item.id !== entry.id),
+        );
+      }
+    },
+    remove: async (id) => {
+      localStorage.removeItem(entryKey(owner, id));
+      writeIndex(readIndex().filter((item) => item.id !== id));
+    },
+  };
+};
+
+const HISTORY_API = '/api/history';
+export const HISTORY_USER_HEADER = 'X-MediaPeek-User';
+
+const expectOk = async (response: Response) => {
+  if (!response.ok) {
+    throw new Error(
+      (await response.text()) || `History request failed: ${response.status}`,
+    );
+  }
+  return response;
+};
+
+export const remoteHistoryStore: HistoryStore = {
+  kind: 'remote',
+  list: async () => (await expectOk(await fetch(HISTORY_API))).json(),
+  get: async (id) => {
+    const response = await fetch(`${HISTORY_API}/${encodeURIComponent(id)}`);
+    if (response.status === 404) return null;
+    return (await expectOk(response)).json();
+  },
+  save: async (entry) => {
+    await expectOk(
+      await fetch(HISTORY_API, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(entry),
+      }),
+    );
+  },
+  remove: async (id) => {
+    await expectOk(
+      await fetch(`${HISTORY_API}/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      }),
+    );
+  },
+};
+
+// The Worker answers 501 when no server store is configured, and names the
+// account either way so local history stays per user. Not cached: logging
+// out and in as someone else doesn't reload the page.
+export const getHistoryStore = (): Promise<HistoryStore> =>
+  fetch(HISTORY_API, { method: 'HEAD' })
+    .then((response) =>
+      response.ok
+        ? remoteHistoryStore
+        : localHistoryStore(
+            response.headers.get(HISTORY_USER_HEADER) ?? 'anonymous',
+          ),
+    )
+    .catch(() => localHistoryStore('anonymous'));
+
+// Saving history must never get in the way of showing the result
+export const recordHistory = async (entry: HistoryEntry) => {
+  try {
+    await (await getHistoryStore()).save(entry);
+  } catch (error) {
+    console.error('Failed to save analysis to history:', error);
+  }
+};
@@ -0,0 +1,572 @@
+import type { MediaInfoResult } from 'mediainfo.js';
+
+import {
+  assertNotRateLimited,
+  type ByteSource,
+  openFileSource,
+  openUrlSource,
+  proxyFetch,
+  type UpstreamFetch,
+  type UrlSourceOptions,
+} from './byte-source';
+import { getFilenameFromUrl } from './file-type';
+import {
+  loadManifest,
+  type Manifest,
+  type Rendition,
+  type SegmentRef,
+} from './manifest';
+import { getTracks } from './media-summary';
+
+// Enough of a media segment for MediaInfo to see every stream
+const MAX_SEGMENT_BYTES = 8 * 1024 * 1024;
+
+export interface RenditionReport {
+  rendition: Rendition;
+  result: MediaInfoResult | null;
+  // Why there is no result: a failed fetch, or nothing we can analyze
+  error: string | null;
+  // Bits per second over the first media segment, when fully read
+  measuredBitrate: number | null;
+}
+
+export interface ManifestIssue {
+  // Rendition id, null for the whole ladder
+  rendition: string | null;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ManifestReport {
+  kind: Manifest['kind'];
+  url: string;
+  renditions: RenditionReport[];
+  issues: ManifestIssue[];
+}
+
+export interface ManifestAnalysisOptions {
+  fetchUpstream?: UpstreamFetch;
+  signal?: AbortSignal;
+  // Block cache cap for renditions served as one file
+  cacheBytes?: number;
+  // Runs MediaInfo on a rendition's segments; the page hands this to its
+  // Web Worker, the server runs it inline
+  analyze: (source: ByteSource) => Promise<MediaInfoResult>;
+}
+
+type StreamKind = 'video' | 'audio' | 'subtitles';
+
+// RFC 6381 codec strings to MediaInfo's Format, by prefix
+const CODEC_FORMATS: [prefix: string, format: string, kind: StreamKind][] = [
+  ['avc1', 'AVC', 'video'],
+  ['avc3', 'AVC', 'video'],
+  ['dvav', 'AVC', 'video'],
+  ['dva1', 'AVC', 'video'],
+  ['hvc1', 'HEVC', 'video'],
+  ['hev1', 'HEVC', 'video'],
+  ['dvh1', 'HEVC', 'video'],
+  ['dvhe', 'HEVC', 'video'],
+  ['av01', 'AV1', 'video'],
+  ['vp09', 'VP9', 'video'],
+  ['vp9', 'VP9', 'video'],
+  ['vp8', 'VP8', 'video'],
+  ['mp4a.40', 'AAC', 'audio'],
+  ['mp4a.69', 'MPEG Audio', 'audio'],
+  ['mp4a.6b', 'MPEG Audio', 'audio'],
+  ['mp4a.a5', 'AC-3', 'audio'],
+  ['mp4a.a6', 'E-AC-3', 'audio'],
+  ['ac-3', 'AC-3', 'audio'],
+  ['ec-3', 'E-AC-3', 'audio'],
+  ['ac-4', 'AC-4', 'audio'],
+  ['opus', 'Opus', 'audio'],
+  ['flac', 'FLAC', 'audio'],
+  ['dts', 'DTS', 'audio'],
+  ['wvtt', 'WebVTT', 'subtitles'],
+  ['stpp', 'TTML', 'subtitles'],
+];
+
+export const codecFormat = (codec: string) =>
+  CODEC_FORMATS.find(([prefix]) => codec.toLowerCase().startsWith(prefix)) ??
+  null;
+
+// "AAC LC" still is AAC
+const sameFormat = (actual: string | undefined, expected: string) =>
+  !!actual && actual.toUpperCase().startsWith(expected.toUpperCase());
+
+// Reads at most MAX_SEGMENT_BYTES; a server ignoring Range gets cut off
+const fetchSegment = async (
+  segment: SegmentRef,
+  fetchUpstream: UpstreamFetch,
+  signal?: AbortSignal,
+) => {
+  const start = segment.range?.start ?? 0;
+  const end = Math.min(
+    segment.range?.end ?? Infinity,
+    start + MAX_SEGMENT_BYTES,
+  );
+  const response = await fetchUpstream(segment.url, {
+    method: 'GET',
+    headers: { Range: `bytes=${start}-${end - 1}` },
+    signal,
+  });
+  await assertNotRateLimited(response);
+  if (!response.ok || !response.body) {
+    throw new Error(
+      `Segment fetch failed: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  // A 200 is the whole resource, skip ahead to the range
+  const skip = response.status === 200 ? start : 0;
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  let complete = true;
+  const reader = response.body.getReader();
+  while (received < skip + (end - start)) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.byteLength;
+  }
+  if (received >= skip + (end - start)) {
+    complete = segment.range !== null && end === segment.range.end;
+    await reader.cancel().catch(() => {});
+  }
+
+  const data = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { data: data.subarray(skip, skip + (end - start)), complete };
+};
+
+// Init and first media segment back to back, as a player would feed them
+const openRenditionSource = async (
+  rendition: Rendition,
+  onStatus: (status: string) => void,
+  fetchUpstream: UpstreamFetch,
+  { signal, cacheBytes }: UrlSourceOptions,
+) => {
+  if (rendition.singleFile) {
+    const source = await openUrlSource(
+      rendition.segments[0].url,
+      onStatus,
+      fetchUpstream,
+      { signal, cacheBytes },
+    );
+    return { source, mediaBytes: null };
+  }
+
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  let mediaBytes: number | null = null;
+  for (const [index, segment] of rendition.segments.entries()) {
+    const { data, complete } = await fetchSegment(
+      segment,
+      fetchUpstream,
+      signal,
+    );
+    parts.push(new Uint8Array(data));
+    if (index === rendition.segments.length - 1 && complete) {
+      mediaBytes = data.byteLength;
+    }
+  }
+
+  const media = rendition.segments[rendition.segments.length - 1];
+  const source = await openFileSource(new Blob(parts), onStatus);
+  return {
+    source: {
+      ...source,
+      name: getFilenameFromUrl(media.url) ?? media.url,
+    },
+    mediaBytes,
+  };
+};
+
+const analyzeRendition = async (
+  rendition: Rendition,
+  onStatus: (status: string) => void,
+  {
+    fetchUpstream = proxyFetch,
+    signal,
+    cacheBytes,
+    analyze,
+  }: ManifestAnalysisOptions,
+): Promise<RenditionReport> => {
+  const report = (error: string | null): RenditionReport => ({
+    rendition,
+    result: null,
+    error,
+    measuredBitrate: null,
+  });
+
+  if (rendition.type === 'subtitles') return report(null);
+  if (!rendition.url) return report('Muxed into the variant streams');
+  if (rendition.encryption === 'AES-128') {
+    return report('Segments are AES-128 encrypted');
+  }
+  if (rendition.segments.length === 0) return report('No segments found');
+
+  try {
+    onStatus(`Fetching segments for ${rendition.id}...`);
+    const { source, mediaBytes } = await openRenditionSource(
+      rendition,
+      onStatus,
+      fetchUpstream,
+      { signal, cacheBytes },
+    );
+    onStatus(`Analyzing ${rendition.id}...`);
+    const result = await analyze(source);
+    return {
+      rendition,
+      result,
+      error: null,
+      measuredBitrate:
+        mediaBytes !== null && rendition.segmentDuration
+          ? Math.round((mediaBytes * 8) / rendition.segmentDuration)
+          : null,
+    };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return report(error instanceof Error ? error.message : 'Analysis failed');
+  }
+};
+
+// Declared vs detected, one rendition at a time
+const checkRendition = (
+  { rendition, result, measuredBitrate }: RenditionReport,
+  groupResults: MediaInfoResult[],
+): string[] => {
+  if (!result) return [];
+  const problems: string[] = [];
+  const [video] = getTracks(result, 'Video');
+  const audio = getTracks(result, 'Audio');
+
+  if (rendition.width && rendition.height && video?.Width && video.Height) {
+    if (rendition.width !== video.Width || rendition.height !== video.Height) {
+      problems.push(
+        `Declared ${rendition.width}x${rendition.height}, segments are ${video.Width}x${video.Height}`,
+      );
+    }
+  }
+
+  if (
+    rendition.frameRate &&
+    video?.FrameRate &&
+    Math.abs(rendition.frameRate - video.FrameRate) > 0.01
+  ) {
+    problems.push(
+      `Declared ${rendition.frameRate.toFixed(3)} fps, segments are ${video.FrameRate.toFixed(3)} fps`,
+    );
+  }
+
+  if (
+    rendition.channels &&
+    audio[0]?.Channels &&
+    rendition.channels !== audio[0].Channels
+  ) {
+    problems.push(
+      `Declared ${rendition.channels} channels, segments have ${audio[0].Channels}`,
+    );
+  }
+
+  // Audio codecs of a variant with an audio group live in the group
+  const groupAudio = groupResults.flatMap((group) => getTracks(group, 'Audio'));
+  const declared = rendition.codecs.map(codecFormat);
+  for (const [index, match] of declared.entries()) {
+    if (!match) continue;
+    const [, format, kind] = match;
+    const candidates =
+      kind === 'video'
+        ? getTracks(result, 'Video')
+        : kind === 'audio'
+          ? [...audio, ...groupAudio]
+          : [];
+    // Subtitles aren't sampled, nor is a group that failed to load
+    if (
+      kind === 'subtitles' ||
+      (kind === 'audio' && rendition.audioGroup && candidates.length === 0)
+    ) {
+      continue;
+    }
+    if (!candidates.some((track) => sameFormat(track.Format, format))) {
+      problems.push(
+        `Declares ${rendition.codecs[index]} (${format}), segments have ${
+          candidates.map((track) => track.Format).join(', ') || 'no such stream'
+        }`,
+      );
+    }
+  }
+
+  // Streams the manifest doesn't mention
+  if (declared.some(Boolean)) {
+    for (const track of [...getTracks(result, 'Video'), ...audio]) {
+      if (
+        !declared.some((match) => match && sameFormat(track.Format, match[1]))
+      ) {
+        problems.push(
+          `${track['@type']} ${track.Format} not declared in CODECS`,
+        );
+      }
+    }
+  }
+
+  // BANDWIDTH is the peak; a single segment above it breaks the promise
+  if (
+    rendition.bandwidth &&
+    measuredBitrate &&
+    measuredBitrate > rendition.bandwidth * 1.1
+  ) {
+    problems.push(
+      `First segment runs at ${Math.round(measuredBitrate / 1000)} kb/s, above the declared ${Math.round(rendition.bandwidth / 1000)} kb/s`,
+    );
+  }
+
+  return problems;
+};
+
+// Ladder-wide consistency: groups, ordering, duplicates
+const checkLadder = (reports: RenditionReport[]): ManifestIssue[] => {
+  const issues: ManifestIssue[] = [];
+  const renditions = reports.map((report) => report.rendition);
+  const groups = (type: Rendition['type']) =>
+    new Set(
+      renditions
+        .filter((rendition) => rendition.type === type)
+        .map((rendition) => rendition.group),
+    );
+  const audioGroups = groups('audio');
+  const subtitleGroups = groups('subtitles');
+  const variants = renditions
+    .filter((rendition) => rendition.type === 'video')
+    .sort((a, b) => (a.bandwidth ?? 0) - (b.bandwidth ?? 0));
+
+  for (const variant of variants) {
+    if (variant.audioGroup && !audioGroups.has(variant.audioGroup)) {
+      issues.push({
+        rendition: variant.id,
+        severity: 'error',
+        message: `Audio group "${variant.audioGroup}" is not defined`,
+      });
+    }
+    if (variant.subtitleGroup && !subtitleGroups.has(variant.subtitleGroup)) {
+      issues.push({
+        rendition: variant.id,
+        severity: 'error',
+        message: `Subtitle group "${variant.subtitleGroup}" is not defined`,
+      });
+    }
+  }
+
+  variants.forEach((variant, index) => {
+    const lower = variants[index - 1];
+    if (!lower) return;
+    if (
+      lower.bandwidth === variant.bandwidth &&
+      lower.height === variant.height &&
+      lower.codecs.join() === variant.codecs.join()
+    ) {
+      issues.push({
+        rendition: variant.id,
+        severity: 'warning',
+        message: `Duplicates ${lower.id} (same bandwidth, resolution and codecs)`,
+      });
+    } else if (
+      variant.height &&
+      lower.height &&
+      variant.height < lower.height &&
+      variant.codecs.join() === lower.codecs.join()
+    ) {
+      issues.push({
+        rendition: variant.id,
+        severity: 'warning',
+        message: `Lower resolution than ${lower.id} at a higher bandwidth`,
+      });
+    }
+  });
+
+  for (const type of ['audio', 'subtitles'] as const) {
+    for (const group of groups(type)) {
+      const members = reports.filter(
+        ({ rendition }) => rendition.type === type && rendition.group === group,
+      );
+      const defaults = members.filter(({ rendition }) => rendition.isDefault);
+      if (defaults.length > 1) {
+        issues.push({
+          rendition: null,
+          severity: 'warning',
+          message: `${defaults.length} default renditions in ${type} group "${group}"`,
+        });
+      }
+      const formats = new Set(
+        members.flatMap(({ result }) =>
+          getTracks(result, 'Audio').map((track) => track.Format),
+        ),
+      );
+      if (formats.size > 1) {
+        issues.push({
+          rendition: null,
+          severity: 'warning',
+          message: `Audio group "${group}" mixes codecs: ${[...formats].join(', ')}`,
+        });
+      }
+      for (const { rendition } of members) {
+        if (!rendition.language) {
+          issues.push({
+            rendition: rendition.id,
+            severity: 'warning',
+            message: `No language declared`,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+};
+
+// Samples every rendition of an HLS or DASH package and checks what the
+// manifest declares against what the segments contain
+export async function analyzeManifest(
+  url: string,
+  onStatus: (status: string) => void,
+  options: ManifestAnalysisOptions,
+): Promise<ManifestReport> {
+  const { fetchUpstream = proxyFetch, signal } = options;
+  const manifest = await loadManifest(url, onStatus, fetchUpstream, signal);
+  onStatus(
+    `${manifest.kind} manifest with ${manifest.renditions.length} renditions`,
+  );
+
+  // One at a time: the proxy's rate limits apply per request
+  const renditions: RenditionReport[] = [];
+  for (const rendition of manifest.renditions) {
+    signal?.throwIfAborted();
+    renditions.push(await analyzeRendition(rendition, onStatus, options));
+  }
+
+  const issues: ManifestIssue[] = manifest.warnings.map((message) => ({
+    rendition: null,
+    severity: 'warning',
+    message,
+  }));
+  for (const report of renditions) {
+    if (report.error && report.rendition.url) {
+      issues.push({
+        rendition: report.rendition.id,
+        // Encrypted segments are expected, just not something we can read
+        severity: report.rendition.encryption ? 'warning' : 'error',
+        message: report.error,
+      });
+    }
+    const groupResults = renditions
+      .filter(
+        ({ rendition, result }) =>
+          result &&
+          rendition.type === 'audio' &&
+          rendition.group === report.rendition.audioGroup,
+      )
+      .map(({ result }) => result as MediaInfoResult);
+    for (const message of checkRendition(report, groupResults)) {
+      issues.push({
+        rendition: report.rendition.id,
+        severity: 'error',
+        message,
+      });
+    }
+  }
+  issues.push(...checkLadder(renditions));
+
+  onStatus('Analysis complete!');
+  return { kind: manifest.kind, url, renditions, issues };
+}
+
+const kbps = (bits: number | null) =>
+  bits ? `${Math.round(bits / 1000)} kb/s` : '—';
+
+// Plain-text version of the report, for the API and CLI
+export function renderManifestText(report: ManifestReport): string {
+  const table = (rows: string[][]) => {
+    const widths = rows[0].map((_, column) =>
+      Math.max(...rows.map((row) => row[column].length)),
+    );
+    return rows
+      .map((row) =>
+        row
+          .map((cell, column) => cell.padEnd(widths[column]))
+          .join('  ')
+          .trimEnd(),
+      )
+      .join('\n');
+  };
+  const ofType = (type: Rendition['type']) =>
+    report.renditions.filter(({ rendition }) => rendition.type === type);
+
+  const detected = (result: MediaInfoResult | null, type: 'Video' | 'Audio') =>
+    getTracks(result, type)
+      .map((track) => track.Format)
+      .join(', ') || '—';
+
+  const sections = [
+    `${report.kind} manifest: ${report.url}`,
+    '',
+    'Video',
+    table([
+      [
+        'Rendition',
+        'Bandwidth',
+        'Resolution',
+        'Frame rate',
+        'Codecs',
+        'Detected',
+        'Audio',
+      ],
+      ...ofType('video').map(({ rendition, result, error }) => [
+        rendition.id,
+        kbps(rendition.bandwidth),
+        rendition.width ? `${rendition.width}x${rendition.height}` : '—',
+        rendition.frameRate?.toFixed(3) ?? '—',
+        rendition.codecs.join(',') || '—',
+        error ? `(${error})` : detected(result, 'Video'),
+        rendition.audioGroup ?? '—',
+      ]),
+    ]),
+    '',
+    'Audio',
+    table([
+      ['Rendition', 'Group', 'Language', 'Channels', 'Codecs', 'Detected'],
+      ...ofType('audio').map(({ rendition, result, error }) => [
+        rendition.id,
+        rendition.group ?? '—',
+        rendition.language ?? '—',
+        rendition.channels ? String(rendition.channels) : '—',
+        rendition.codecs.join(',') || '—',
+        error ? `(${error})` : detected(result, 'Audio'),
+      ]),
+    ]),
+    '',
+    'Subtitles',
+    table([
+      ['Rendition', 'Group', 'Language', 'Flags'],
+      ...ofType('subtitles').map(({ rendition }) => [
+        rendition.id,
+        rendition.group ?? '—',
+        rendition.language ?? '—',
+        [rendition.isDefault && 'default', rendition.forced && 'forced']
+          .filter(Boolean)
+          .join(', ') || '—',
+      ]),
+    ]),
+    '',
+    report.issues.length > 0 ? 'Issues' : 'No issues found',
+    ...report.issues.map(
+      (issue) =>
+        `  [${issue.severity}] ${
+          issue.rendition ? `${issue.rendition}: ` : ''
+        }${issue.message}`,
+    ),
+    '',
+  ];
+  return sections.join('\n');
+}
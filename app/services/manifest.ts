@@ -0,0 +1,660 @@
+import { XMLParser } from 'fast-xml-parser';
+
+import { assertNotRateLimited, type UpstreamFetch } from './byte-source';
+import { getExtension, getFilenameFromUrl } from './file-type';
+
+// Streaming packages: an HLS playlist or a DASH MPD pointing at segments,
+// analyzed a few segments per rendition instead of as one file.
+export type ManifestKind = 'HLS' | 'DASH';
+
+export type RenditionType = 'video' | 'audio' | 'subtitles';
+
+export interface SegmentRef {
+  url: string;
+  // Byte range within the URL, end exclusive; null for the whole resource
+  range: { start: number; end: number } | null;
+}
+
+export interface Rendition {
+  // HLS NAME or variant position, DASH Representation@id
+  id: string;
+  type: RenditionType;
+  // Declared peak bitrate, bits per second
+  bandwidth: number | null;
+  // As declared, e.g. ["avc1.640028", "mp4a.40.2"]
+  codecs: string[];
+  width: number | null;
+  height: number | null;
+  frameRate: number | null;
+  channels: number | null;
+  language: string | null;
+  label: string | null;
+  // HLS GROUP-ID, DASH AdaptationSet@id
+  group: string | null;
+  // The groups a video variant plays with (HLS AUDIO / SUBTITLES)
+  audioGroup: string | null;
+  subtitleGroup: string | null;
+  isDefault: boolean;
+  forced: boolean;
+  // Media playlist or representation URL
+  url: string | null;
+  // Init segment (fMP4/CMAF) first, then the first media segment
+  segments: SegmentRef[];
+  // Seconds of media in the first media segment, when declared
+  segmentDuration: number | null;
+  // The rendition is one file (DASH SegmentBase), read like any other URL
+  singleFile: boolean;
+  // HLS EXT-X-KEY method other than NONE
+  encryption: string | null;
+}
+
+export interface Manifest {
+  kind: ManifestKind;
+  url: string;
+  renditions: Rendition[];
+  // Problems found while parsing, e.g. a media playlist that didn't load
+  warnings: string[];
+}
+
+// One manifest must not fan out into thousands of fetches and analyses
+const MAX_MANIFEST_BYTES = 2 * 1024 * 1024;
+const MAX_RENDITIONS = 32;
+
+const MANIFEST_EXTENSIONS: Record<string, ManifestKind> = {
+  m3u8: 'HLS',
+  m3u: 'HLS',
+  mpd: 'DASH',
+};
+
+const MANIFEST_MIME_TYPES: Record<string, ManifestKind> = {
+  'application/vnd.apple.mpegurl': 'HLS',
+  'application/x-mpegurl': 'HLS',
+  'audio/mpegurl': 'HLS',
+  'audio/x-mpegurl': 'HLS',
+  'application/dash+xml': 'DASH',
+};
+
+// By the URL path, so a manifest never reaches the media file detection
+export const getManifestKind = (url: string): ManifestKind | null => {
+  const filename = getFilenameFromUrl(url);
+  const extension = filename ? getExtension(filename) : null;
+  return extension ? (MANIFEST_EXTENSIONS[extension] ?? null) : null;
+};
+
+const manifestKindFromContent = (
+  contentType: string | null,
+  text: string,
+): ManifestKind | null => {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mimeType && MANIFEST_MIME_TYPES[mimeType]) {
+    return MANIFEST_MIME_TYPES[mimeType];
+  }
+  if (text.trimStart().startsWith('#EXTM3U')) return 'HLS';
+  if (/<MPD[\s>]/.test(text.slice(0, 4096))) return 'DASH';
+  return null;
+};
+
+const emptyRendition = (
+  id: string,
+  type: RenditionType,
+  url: string | null,
+): Rendition => ({
+  id,
+  type,
+  bandwidth: null,
+  codecs: [],
+  width: null,
+  height: null,
+  frameRate: null,
+  channels: null,
+  language: null,
+  label: null,
+  group: null,
+  audioGroup: null,
+  subtitleGroup: null,
+  isDefault: false,
+  forced: false,
+  url,
+  segments: [],
+  segmentDuration: null,
+  singleFile: false,
+  encryption: null,
+});
+
+const resolveUrl = (base: string, relative: string) =>
+  new URL(relative.trim(), base).toString();
+
+const toNumber = (value: string | undefined | null) => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+// "30000/1001" or "25"
+const parseFrameRate = (value: string | undefined) => {
+  if (!value) return null;
+  const [numerator, denominator = '1'] = value.split('/');
+  const rate = Number(numerator) / Number(denominator);
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+};
+
+const splitCodecs = (value: string | undefined) =>
+  value
+    ? value
+        .split(',')
+        .map((codec) => codec.trim())
+        .filter(Boolean)
+    : [];
+
+const fetchText = async (
+  url: string,
+  fetchUpstream: UpstreamFetch,
+  signal?: AbortSignal,
+) => {
+  const response = await fetchUpstream(url, { method: 'GET', signal });
+  await assertNotRateLimited(response);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch manifest: ${response.status} ${response.statusText}`,
+    );
+  }
+  return {
+    text: await readBoundedText(response),
+    contentType: response.headers.get('Content-Type'),
+  };
+};
+
+const readBoundedText = async (response: Response) => {
+  const tooLarge = () => {
+    throw new Error(
+      `Manifest is larger than ${MAX_MANIFEST_BYTES / 1024 / 1024} MB`,
+    );
+  };
+  if (Number(response.headers.get('Content-Length')) > MAX_MANIFEST_BYTES) {
+    await response.body?.cancel();
+    tooLarge();
+  }
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > MAX_MANIFEST_BYTES) {
+      await reader.cancel().catch(() => {});
+      tooLarge();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+};
+
+// Keeps the first MAX_RENDITIONS, in manifest order
+const capRenditions = (renditions: Rendition[], warnings: string[]) => {
+  if (renditions.length <= MAX_RENDITIONS) return renditions;
+  warnings.push(
+    `${renditions.length} renditions, only the first ${MAX_RENDITIONS} are analyzed`,
+  );
+  return renditions.slice(0, MAX_RENDITIONS);
+};
+
+// --- HLS ---
+
+// KEY=value,KEY="quoted, value"
+const parseHlsAttributes = (line: string) => {
+  const attributes: Record<string, string> = {};
+  const list = line.slice(line.indexOf(':') + 1);
+  for (const [, key, value] of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attributes[key] = value.replace(/^"|"$/g, '');
+  }
+  return attributes;
+};
+
+const hlsLines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+// "length@offset"; without an offset the range follows the previous one
+const parseByteRange = (value: string, previousEnd: number) => {
+  const [length, offset] = value.split('@').map(Number);
+  const start = offset ?? previousEnd;
+  return { start, end: start + length };
+};
+
+interface MediaPlaylist {
+  segments: SegmentRef[];
+  segmentDuration: number | null;
+  encryption: string | null;
+}
+
+const parseMediaPlaylist = (text: string, baseUrl: string): MediaPlaylist => {
+  let init: SegmentRef | null = null;
+  let encryption: string | null = null;
+  let duration: number | null = null;
+  let range: SegmentRef['range'] = null;
+
+  for (const line of hlsLines(text)) {
+    if (line.startsWith('#EXT-X-MAP:')) {
+      const attributes = parseHlsAttributes(line);
+      init = {
+        url: resolveUrl(baseUrl, attributes.URI),
+        range: attributes.BYTERANGE
+          ? parseByteRange(attributes.BYTERANGE, 0)
+          : null,
+      };
+    } else if (line.startsWith('#EXT-X-KEY:')) {
+      const method = parseHlsAttributes(line).METHOD;
+      encryption = method && method !== 'NONE' ? method : null;
+    } else if (line.startsWith('#EXTINF:')) {
+      duration = toNumber(line.slice(8).split(',')[0]);
+    } else if (line.startsWith('#EXT-X-BYTERANGE:')) {
+      range = parseByteRange(line.slice(17), 0);
+    } else if (!line.startsWith('#')) {
+      // The first media segment is all we need
+      const media = { url: resolveUrl(baseUrl, line), range };
+      return {
+        segments: init ? [init, media] : [media],
+        segmentDuration: duration,
+        encryption,
+      };
+    }
+  }
+  return { segments: init ? [init] : [], segmentDuration: null, encryption };
+};
+
+const parseResolution = (value: string | undefined) => {
+  const match = value?.match(/^(\d+)x(\d+)$/);
+  return match ? [Number(match[1]), Number(match[2])] : [null, null];
+};
+
+const HLS_MEDIA_TYPES: Record<string, RenditionType> = {
+  AUDIO: 'audio',
+  SUBTITLES: 'subtitles',
+};
+
+const parseHls = async (
+  text: string,
+  url: string,
+  fetchUpstream: UpstreamFetch,
+  onStatus: (status: string) => void,
+  signal?: AbortSignal,
+): Promise<Manifest> => {
+  const lines = hlsLines(text);
+  const warnings: string[] = [];
+
+  // A media playlist on its own is a single rendition
+  if (!lines.some((line) => line.startsWith('#EXT-X-STREAM-INF:'))) {
+    const rendition = emptyRendition(
+      getFilenameFromUrl(url) ?? 'Playlist',
+      'video',
+      url,
+    );
+    return {
+      kind: 'HLS',
+      url,
+      renditions: [{ ...rendition, ...parseMediaPlaylist(text, url) }],
+      warnings,
+    };
+  }
+
+  const renditions: Rendition[] = [];
+  let variant = 0;
+  lines.forEach((line, index) => {
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      const attributes = parseHlsAttributes(line);
+      const uri = lines[index + 1];
+      if (!uri || uri.startsWith('#')) return;
+      const [width, height] = parseResolution(attributes.RESOLUTION);
+      variant++;
+      renditions.push({
+        ...emptyRendition(
+          height ? `Variant ${variant} (${height}p)` : `Variant ${variant}`,
+          'video',
+          resolveUrl(url, uri),
+        ),
+        bandwidth: toNumber(attributes.BANDWIDTH),
+        codecs: splitCodecs(attributes.CODECS),
+        width,
+        height,
+        frameRate: parseFrameRate(attributes['FRAME-RATE']),
+        audioGroup: attributes.AUDIO ?? null,
+        subtitleGroup: attributes.SUBTITLES ?? null,
+      });
+    } else if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attributes = parseHlsAttributes(line);
+      const type = HLS_MEDIA_TYPES[attributes.TYPE];
+      if (!type) return;
+      renditions.push({
+        ...emptyRendition(
+          attributes.NAME ?? attributes['GROUP-ID'] ?? type,
+          type,
+          // No URI: the rendition is muxed into the variant streams
+          attributes.URI ? resolveUrl(url, attributes.URI) : null,
+        ),
+        language: attributes.LANGUAGE ?? null,
+        label: attributes.NAME ?? null,
+        group: attributes['GROUP-ID'] ?? null,
+        // "6" or "16/JOC"
+        channels: toNumber(attributes.CHANNELS?.split('/')[0]),
+        codecs: splitCodecs(attributes.CODECS),
+        isDefault: attributes.DEFAULT === 'YES',
+        forced: attributes.FORCED === 'YES',
+      });
+    }
+  });
+
+  // Each media playlist names the segments to sample
+  const sampled = capRenditions(renditions, warnings);
+  for (const rendition of sampled) {
+    if (!rendition.url || rendition.type === 'subtitles') continue;
+    signal?.throwIfAborted();
+    onStatus(`Loading playlist for ${rendition.id}...`);
+    try {
+      const playlist = await fetchText(rendition.url, fetchUpstream, signal);
+      Object.assign(
+        rendition,
+        parseMediaPlaylist(playlist.text, rendition.url),
+      );
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      warnings.push(
+        `${rendition.id}: ${
+          error instanceof Error ? error.message : 'playlist failed to load'
+        }`,
+      );
+    }
+  }
+
+  return { kind: 'HLS', url, renditions: sampled, warnings };
+};
+
+// --- DASH ---
+
+type XmlNode = Record<string, unknown>;
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@',
+  removeNSPrefix: true,
+  parseAttributeValue: false,
+  parseTagValue: false,
+  isArray: (name) =>
+    [
+      'Period',
+      'AdaptationSet',
+      'Representation',
+      'BaseURL',
+      'S',
+      'SegmentURL',
+      'AudioChannelConfiguration',
+      'Role',
+      'Label',
+    ].includes(name),
+});
+
+const attr = (node: XmlNode | undefined, name: string) => {
+  const value = node?.[`@${name}`];
+  return typeof value === 'string' ? value : undefined;
+};
+
+const children = (node: XmlNode | undefined, name: string): XmlNode[] => {
+  const value = node?.[name];
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map((child) =>
+    typeof child === 'object' && child !== null
+      ? (child as XmlNode)
+      : { '#text': String(child) },
+  );
+};
+
+const child = (node: XmlNode | undefined, name: string) =>
+  children(node, name)[0] as XmlNode | undefined;
+
+const textOf = (node: XmlNode | undefined) => {
+  const value = node?.['#text'];
+  return typeof value === 'string' || typeof value === 'number'
+    ? String(value).trim()
+    : undefined;
+};
+
+// Each level's BaseURL is relative to the one above
+const withBaseUrl = (base: string, node: XmlNode) => {
+  const baseUrl = textOf(child(node, 'BaseURL'));
+  return baseUrl ? resolveUrl(base, baseUrl) : base;
+};
+
+// "start-end", inclusive
+const parseDashRange = (value: string | undefined) => {
+  const match = value?.match(/^(\d+)-(\d+)$/);
+  return match ? { start: Number(match[1]), end: Number(match[2]) + 1 } : null;
+};
+
+// $RepresentationID$, $Number%05d$ and friends
+const fillTemplate = (
+  template: string,
+  values: Record<string, string | number>,
+) =>
+  template.replace(/\$(\w*)(?:%0(\d+)d)?\$/g, (match, name, width) => {
+    if (name === '') return '$';
+    const value = values[name];
+    if (value === undefined) return match;
+    return width ? String(value).padStart(Number(width), '0') : String(value);
+  });
+
+// Inner levels override outer ones, attribute by attribute
+const mergeNodes = (...nodes: (XmlNode | undefined)[]): XmlNode | undefined =>
+  nodes.some(Boolean) ? Object.assign({}, ...nodes.filter(Boolean)) : undefined;
+
+const DASH_CONTENT_TYPES: Record<string, RenditionType> = {
+  video: 'video',
+  audio: 'audio',
+  text: 'subtitles',
+};
+
+const dashRenditionType = (
+  contentType: string | undefined,
+  mimeType: string | undefined,
+  codecs: string[],
+): RenditionType | null => {
+  if (contentType) return DASH_CONTENT_TYPES[contentType] ?? null;
+  const prefix = mimeType?.split('/')[0];
+  if (prefix && DASH_CONTENT_TYPES[prefix]) return DASH_CONTENT_TYPES[prefix];
+  if (mimeType === 'application/ttml+xml') return 'subtitles';
+  if (codecs.some((codec) => /^(stpp|wvtt)/.test(codec))) return 'subtitles';
+  return null;
+};
+
+const dashSegments = (
+  baseUrl: string,
+  representation: XmlNode,
+  template: XmlNode | undefined,
+  list: XmlNode | undefined,
+): Pick<Rendition, 'segments' | 'segmentDuration' | 'singleFile'> => {
+  const id = attr(representation, 'id') ?? '';
+  const bandwidth = attr(representation, 'bandwidth') ?? '';
+
+  if (template) {
+    const timescale = toNumber(attr(template, 'timescale')) ?? 1;
+    const [first] = children(child(template, 'SegmentTimeline'), 'S');
+    const number = toNumber(attr(template, 'startNumber')) ?? 1;
+    const time = toNumber(attr(first, 't')) ?? 0;
+    const duration = toNumber(attr(first, 'd') ?? attr(template, 'duration'));
+    const values = {
+      RepresentationID: id,
+      Bandwidth: bandwidth,
+      Number: number,
+      Time: time,
+    };
+    const initialization =
+      attr(template, 'initialization') ??
+      attr(child(template, 'Initialization'), 'sourceURL');
+    const media = attr(template, 'media');
+    return {
+      segments: [
+        ...(initialization
+          ? [
+              {
+                url: resolveUrl(baseUrl, fillTemplate(initialization, values)),
+                range: null,
+              },
+            ]
+          : []),
+        ...(media
+          ? [
+              {
+                url: resolveUrl(baseUrl, fillTemplate(media, values)),
+                range: null,
+              },
+            ]
+          : []),
+      ],
+      segmentDuration: duration !== null ? duration / timescale : null,
+      singleFile: false,
+    };
+  }
+
+  if (list) {
+    const timescale = toNumber(attr(list, 'timescale')) ?? 1;
+    const duration = toNumber(attr(list, 'duration'));
+    const initialization = child(list, 'Initialization');
+    const [first] = children(list, 'SegmentURL');
+    const segments: SegmentRef[] = [];
+    if (initialization) {
+      const source = attr(initialization, 'sourceURL');
+      segments.push({
+        url: source ? resolveUrl(baseUrl, source) : baseUrl,
+        range: parseDashRange(attr(initialization, 'range')),
+      });
+    }
+    if (first) {
+      const media = attr(first, 'media');
+      segments.push({
+        url: media ? resolveUrl(baseUrl, media) : baseUrl,
+        range: parseDashRange(attr(first, 'mediaRange')),
+      });
+    }
+    return {
+      segments,
+      segmentDuration: duration !== null ? duration / timescale : null,
+      singleFile: false,
+    };
+  }
+
+  // SegmentBase or nothing at all: one file holding every segment
+  return {
+    segments: [{ url: baseUrl, range: null }],
+    segmentDuration: null,
+    singleFile: true,
+  };
+};
+
+const parseDash = (text: string, url: string): Manifest => {
+  const mpd = child(xmlParser.parse(text) as XmlNode, 'MPD');
+  if (!mpd) throw new Error('Not a DASH manifest: no MPD element');
+
+  const warnings: string[] = [];
+  const periods = children(mpd, 'Period');
+  if (periods.length > 1) {
+    warnings.push(`${periods.length} periods, only the first one is analyzed`);
+  }
+  const [period] = periods;
+  if (!period) throw new Error('DASH manifest has no Period');
+  if (attr(mpd, 'type') === 'dynamic') {
+    warnings.push('Live (dynamic) manifest, segments may already be gone');
+  }
+
+  const periodBase = withBaseUrl(withBaseUrl(url, mpd), period);
+  const renditions: Rendition[] = [];
+
+  children(period, 'AdaptationSet').forEach((set, setIndex) => {
+    const setBase = withBaseUrl(periodBase, set);
+    const roles = children(set, 'Role').map((role) => attr(role, 'value'));
+
+    for (const representation of children(set, 'Representation')) {
+      const codecs = splitCodecs(
+        attr(representation, 'codecs') ?? attr(set, 'codecs'),
+      );
+      const type = dashRenditionType(
+        attr(set, 'contentType'),
+        attr(representation, 'mimeType') ?? attr(set, 'mimeType'),
+        codecs,
+      );
+      // Thumbnail tracks and the like
+      if (!type) continue;
+
+      const baseUrl = withBaseUrl(setBase, representation);
+      const channels =
+        child(representation, 'AudioChannelConfiguration') ??
+        child(set, 'AudioChannelConfiguration');
+      const label = textOf(
+        child(representation, 'Label') ?? child(set, 'Label'),
+      );
+
+      renditions.push({
+        ...emptyRendition(
+          attr(representation, 'id') ?? `${type} ${renditions.length + 1}`,
+          type,
+          baseUrl,
+        ),
+        bandwidth: toNumber(attr(representation, 'bandwidth')),
+        codecs,
+        width: toNumber(attr(representation, 'width') ?? attr(set, 'width')),
+        height: toNumber(attr(representation, 'height') ?? attr(set, 'height')),
+        frameRate: parseFrameRate(
+          attr(representation, 'frameRate') ?? attr(set, 'frameRate'),
+        ),
+        channels: toNumber(attr(channels, 'value')),
+        language: attr(set, 'lang') ?? null,
+        label: label ?? null,
+        group: attr(set, 'id') ?? String(setIndex),
+        isDefault: roles.includes('main'),
+        forced: roles.includes('forced-subtitle'),
+        ...dashSegments(
+          baseUrl,
+          representation,
+          mergeNodes(
+            child(period, 'SegmentTemplate'),
+            child(set, 'SegmentTemplate'),
+            child(representation, 'SegmentTemplate'),
+          ),
+          child(representation, 'SegmentList') ?? child(set, 'SegmentList'),
+        ),
+      });
+    }
+  });
+
+  return {
+    kind: 'DASH',
+    url,
+    renditions: capRenditions(renditions, warnings),
+    warnings,
+  };
+};
+
+// Fetches and parses a manifest, including HLS media playlists
+export async function loadManifest(
+  url: string,
+  onStatus: (status: string) => void,
+  fetchUpstream: UpstreamFetch,
+  signal?: AbortSignal,
+): Promise<Manifest> {
+  onStatus('Loading manifest...');
+  const { text, contentType } = await fetchText(url, fetchUpstream, signal);
+  const kind =
+    manifestKindFromContent(contentType, text) ?? getManifestKind(url);
+
+  if (kind === 'HLS') {
+    if (!text.trimStart().startsWith('#EXTM3U')) {
+      throw new Error('Not an HLS playlist: missing #EXTM3U header');
+    }
+    return parseHls(text, url, fetchUpstream, onStatus, signal);
+  }
+  if (kind === 'DASH') return parseDash(text, url);
+  throw new Error('Not an HLS or DASH manifest');
+}
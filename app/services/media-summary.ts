@@ -0,0 +1,104 @@
+import type { AudioTrack, MediaInfoResult, Track } from 'mediainfo.js';
+
+// The handful of fields we show in tables and lists
+export interface MediaSummary {
+  container: string | null;
+  // Seconds
+  duration: number | null;
+  width: number | null;
+  height: number | null;
+  videoCodec: string | null;
+  audioTracks: string[];
+  subtitleLanguages: string[];
+}
+
+type TrackType = Track['@type'];
+
+export const getTracks = <T extends TrackType>(
+  result: MediaInfoResult | null | undefined,
+  type: T,
+): Extract<Track, { '@type': T }>[] =>
+  (result?.media?.track ?? []).filter(
+    (track): track is Extract<Track, { '@type': T }> => track['@type'] === type,
+  );
+
+// Track fields as [name, value] pairs, with `extra` (chapters, vendor tags)
+// inlined next to the regular fields.
+export const trackEntries = (track: Track): [string, unknown][] =>
+  Object.entries(track).flatMap(([key, value]): [string, unknown][] => {
+    if (key === '@type' || key === '@typeorder') return [];
+    if (key === 'extra' && typeof value === 'object' && value !== null) {
+      return Object.entries(value);
+    }
+    return [[key, value]];
+  });
+
+// "Video #2", or just "Video" when it's the only one
+export const trackTitle = (track: Track, index: number, count: number) =>
+  count > 1 || track['@typeorder']
+    ? `${track['@type']} #${track['@typeorder'] ?? index + 1}`
+    : track['@type'];
+
+const describeAudioTrack = (track: AudioTrack) =>
+  [track.Format, track.Channels ? `${track.Channels}ch` : null, track.Language]
+    .filter(Boolean)
+    .join(' ');
+
+export function summarizeMedia(result: MediaInfoResult): MediaSummary {
+  const [general] = getTracks(result, 'General');
+  const [video] = getTracks(result, 'Video');
+  const audio = getTracks(result, 'Audio');
+  const text = getTracks(result, 'Text');
+
+  return {
+    container: general?.Format ?? null,
+    duration: general?.Duration ?? video?.Duration ?? null,
+    width: video?.Width ?? null,
+    height: video?.Height ?? null,
+    videoCodec: video?.Format ?? null,
+    audioTracks: audio.map(describeAudioTrack),
+    subtitleLanguages: text.map((track) => track.Language ?? 'und'),
+  };
+}
+
+export const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return '—';
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+};
+
+export const formatResolution = (summary: MediaSummary) =>
+  summary.width && summary.height ? `${summary.width}×${summary.height}` : '—';
+
+// Like MediaInfo's text output: binary units, three significant digits
+const BYTE_UNITS = ['KiB', 'MiB', 'GiB', 'TiB'];
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} Bytes`;
+  let value = bytes;
+  let unit = -1;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value >= 100 ? value.toFixed(0) : value.toPrecision(3)} ${BYTE_UNITS[unit]}`;
+};
+
+// Human-readable value for a MediaInfo field
+export const formatFieldValue = (key: string, raw: unknown): string => {
+  // Integer fields (FileSize, StreamSize, ...) come back as strings
+  const value =
+    typeof raw === 'string' && /^\d+$/.test(raw) ? Number(raw) : raw;
+  if (typeof value === 'number') {
+    if (key === 'Duration') return formatDuration(value);
+    if (key === 'FileSize' || key === 'StreamSize') return formatBytes(value);
+    if (key.endsWith('BitRate')) return `${(value / 1000).toFixed(0)} kb/s`;
+    if (key === 'SamplingRate') return `${(value / 1000).toFixed(1)} kHz`;
+    if (key === 'FrameRate') return `${value.toFixed(3)} fps`;
+  }
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(raw);
+};
@@ -0,0 +1,130 @@
+// Page side of the MediaInfo Web Worker. Same contract as
+// analyzeSourceFormats(), but the WASM runs in one shared worker so parsing
+// doesn't block rendering and the module compiles once per page load.
+
+import type { ByteSource } from './byte-source';
+import {
+  type AnalyzeOptions,
+  analyzeSourceFormats,
+  type MultiFormatResult,
+} from './mediainfo';
+import type { WorkerEvent, WorkerRequest } from './mediainfo-protocol';
+
+interface RunningAnalysis {
+  source: ByteSource;
+  onStatus: (status: string) => void;
+  options: AnalyzeOptions;
+  resolve: (result: MultiFormatResult) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+const running = new Map<number, RunningAnalysis>();
+let nextId = 0;
+
+const send = (request: WorkerRequest) => worker?.postMessage(request);
+
+const handleEvent = async (event: WorkerEvent) => {
+  const analysis = running.get(event.id);
+  if (!analysis) return;
+
+  switch (event.type) {
+    case 'status':
+      analysis.onStatus(event.message);
+      break;
+    case 'progress':
+      analysis.options.onProgress?.(event.bytesRead, event.total);
+      break;
+    case 'read':
+      try {
+        const data = await analysis.source.readChunk(event.size, event.offset);
+        send({ type: 'chunk', id: event.id, readId: event.readId, data });
+      } catch (error) {
+        send({
+          type: 'chunk-error',
+          id: event.id,
+          readId: event.readId,
+          message: error instanceof Error ? error.message : 'Read failed',
+        });
+      }
+      break;
+    case 'result':
+      running.delete(event.id);
+      analysis.resolve(event.result);
+      break;
+    case 'error':
+      running.delete(event.id);
+      analysis.reject(new Error(event.message));
+      break;
+  }
+};
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./mediainfo.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    worker.addEventListener('message', (event: MessageEvent<WorkerEvent>) => {
+      void handleEvent(event.data);
+    });
+    // A crashed worker fails everything in flight; the next run starts afresh
+    worker.addEventListener('error', (event) => {
+      for (const analysis of running.values()) {
+        analysis.reject(new Error(event.message || 'MediaInfo worker crashed'));
+      }
+      running.clear();
+      worker?.terminate();
+      worker = null;
+    });
+  }
+  return worker;
+};
+
+export async function analyzeInWorker(
+  source: ByteSource,
+  formats: string[],
+  onStatus: (status: string) => void,
+  options: AnalyzeOptions = {},
+): Promise<MultiFormatResult> {
+  // Nowhere to put a worker (server rendering, old browsers)
+  if (typeof Worker === 'undefined') {
+    return analyzeSourceFormats(source, formats, onStatus, options);
+  }
+
+  const { signal, onFileType } = options;
+  signal?.throwIfAborted();
+  onFileType?.(source.fileType);
+
+  const id = nextId++;
+  const target = getWorker();
+
+  try {
+    return await new Promise<MultiFormatResult>((resolve, reject) => {
+      running.set(id, { source, onStatus, options, resolve, reject });
+
+      signal?.addEventListener(
+        'abort',
+        () => {
+          if (!running.delete(id)) return;
+          send({ type: 'cancel', id });
+          reject(signal.reason);
+        },
+        { once: true },
+      );
+
+      target.postMessage({
+        type: 'analyze',
+        id,
+        name: source.name,
+        size: source.size,
+        fileType: source.fileType,
+        formats,
+        full: options.full ?? false,
+        coverData: options.coverData ?? false,
+        wasmUrl: new URL('/MediaInfoModule.wasm', location.href).toString(),
+      } satisfies WorkerRequest);
+    });
+  } finally {
+    source.close?.();
+  }
+}
@@ -0,0 +1,33 @@
+// Messages between the page and the MediaInfo Web Worker. The worker owns the
+// WASM; the page keeps the ByteSource and answers the worker's reads, so
+// proxy headers, the block cache and local files stay where they are.
+// Every message carries the id of the analysis it belongs to.
+
+import type { DetectedFileType } from './file-type';
+import type { MultiFormatResult } from './mediainfo';
+
+// Page → worker
+export type WorkerRequest =
+  | {
+      type: 'analyze';
+      id: number;
+      name: string;
+      size: number;
+      fileType: DetectedFileType;
+      formats: string[];
+      full: boolean;
+      coverData: boolean;
+      wasmUrl: string;
+    }
+  // Answer to a "read" event: the bytes, or why they couldn't be read
+  | { type: 'chunk'; id: number; readId: number; data: Uint8Array }
+  | { type: 'chunk-error'; id: number; readId: number; message: string }
+  | { type: 'cancel'; id: number };
+
+// Worker → page
+export type WorkerEvent =
+  | { type: 'status'; id: number; message: string }
+  | { type: 'progress'; id: number; bytesRead: number; total: number }
+  | { type: 'read'; id: number; readId: number; size: number; offset: number }
+  | { type: 'result'; id: number; result: MultiFormatResult }
+  | { type: 'error'; id: number; message: string };
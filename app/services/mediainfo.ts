@@ -1,4 +1,16 @@
-import type { MediaInfo, ReadChunkFunc } from 'mediainfo.js';
+import type { MediaInfo, MediaInfoResult } from 'mediainfo.js';
+
+import {
+  type ByteSource,
+  openFileSource,
+  openUrlSource,
+  type StreamingOptions,
+  type UpstreamFetch,
+} from './byte-source';
+import type { DetectedFileType } from './file-type';
+import { getManifestKind } from './manifest';
+import { analyzeManifest, renderManifestText } from './manifest-analysis';
+import { REPORT_FORMATTERS } from './report-formatters';
 
 // type MediaInfoCallback removed as it was unused
 
@@ -11,217 +23,137 @@ type MediaInfoFactory = (opts: {
   locateFile?: (path: string, prefix: string) => string;
 }) => Promise<MediaInfo>;
 
-export async function analyzeMedia(
-  url: string,
-  onResult: (text: string) => void,
+const loadMediaInfo = async (
+  format: string,
+  locateFile: (path: string, prefix: string) => string,
   onStatus: (status: string) => void,
-  format: string = 'text',
-): Promise<string> {
-  // --- 1. Validation Phase ---
-  onStatus('Validating URL...');
-
-  const SUPPORTED_EXTENSIONS = {
-    video: [
-      'mkv',
-      'mp4',
-      'avi',
-      'mov',
-      'webm',
-      'flv',
-      'wmv',
-      'm4v',
-      '3gp',
-      'ts',
-      'mts',
-      'm2ts',
-      'vob',
-      'ogv',
-    ],
-    audio: [
-      'mp3',
-      'wav',
-      'aac',
-      'flac',
-      'ogg',
-      'm4a',
-      'wma',
-      'alac',
-      'opus',
-      'mid',
-      'midi',
-    ],
-    image: [
-      'jpg',
-      'jpeg',
-      'png',
-      'gif',
-      'bmp',
-      'webp',
-      'svg',
-      'tiff',
-      'ico',
-      'heic',
-    ],
-  };
-
-  // Helper to extract filename from Content-Disposition
-  const getFilenameFromHeader = (header: string | null): string | null => {
-    if (!header) return null;
-    const matches = /filename="?([^"]+)"?/.exec(header);
-    return matches ? matches[1] : null;
-  };
-
-  // Perform HEAD request for validation
-  const response = await fetch(
-    `/resources/proxy?url=${encodeURIComponent(url)}`,
-    { method: 'HEAD' },
-  );
-
-  if (!response.ok) {
-    throw new Error(
-      `Failed to fetch metadata (HEAD): ${response.status} ${response.statusText}`,
-    );
-  }
-
-  const contentDisposition = response.headers.get('Content-Disposition');
-  const filename = getFilenameFromHeader(contentDisposition);
-
-  if (!filename) {
-    // If no filename in header, maybe try URL path?
-    // The user specifically asked to check Content-Disposition "because it will easily tell".
-    // If it's missing, we might want to strict fail or fallback.
-    // Strict fail seems safer based on "we must check... content-disposition".
-    throw new Error(
-      'Cannot determine filename. Server must provide "Content-Disposition" header with a filename.',
-    );
-  }
-
-  const extension = filename.split('.').pop()?.toLowerCase();
-
-  if (!extension) {
-    throw new Error(
-      `Cannot determine file extension from filename: "${filename}"`,
-    );
-  }
-
-  const isVideo = SUPPORTED_EXTENSIONS.video.includes(extension);
-  const isAudio = SUPPORTED_EXTENSIONS.audio.includes(extension);
-  const isImage = SUPPORTED_EXTENSIONS.image.includes(extension);
-
-  if (!isVideo && !isAudio && !isImage) {
-    throw new Error(
-      `Unsupported file type: ".${extension}". Only Video, Audio, and Image files are allowed.`,
-    );
-  }
-
-  onStatus(`Detected valid file: ${filename}`);
-
-  // --- 2. Dynamic Import & Setup ---
+  { full = false, coverData = false }: ReportOptions = {},
+) => {
   onStatus('Loading MediaInfo WASM...');
   const mediainfoModule = await import('mediainfo.js');
   // mediainfoModule.default or mediainfoModule check
   const mediaInfoFactory = (mediainfoModule.default ||
     mediainfoModule) as unknown as MediaInfoFactory;
 
-  const mediainfo = await mediaInfoFactory({
+  return mediaInfoFactory({
     format: format, // 'format' is string, and MediaInfoFactory accepts string
-    coverData: false,
-    full: false, // Set to false to avoid deep scan/parsing of all frames
-    locateFile: () => '/MediaInfoModule.wasm',
+    coverData,
+    full, // Off by default to avoid deep scan/parsing of all frames
+    locateFile,
   });
+};
 
-  try {
-    let fileSize = 0;
-    let cache: { start: number; data: Uint8Array } | null = null;
-    const PREFETCH_SIZE = 2 * 1024 * 1024; // 2MB chunk size for prefetching
-
-    const getSize = async (): Promise<number> => {
-      // Reuse the size from the validation response if possible?
-      // The validation response body is already consumed/closed (HEAD has no body),
-      // but we have the headers from 'response'.
-      // Let's use the headers we already fetched to avoid a second network request!
-      const contentLength = response.headers.get('Content-Length');
-      if (!contentLength) {
-        throw new Error('Content-Length header missing');
-      }
-      const size = parseInt(contentLength, 10);
-      fileSize = size;
-      onStatus(`File size: ${(size / (1024 * 1024)).toFixed(2)} MB`);
-      return size;
-    };
-
-    const readChunk: ReadChunkFunc = async (
-      size: number,
-      offset: number,
-    ): Promise<Uint8Array> => {
-      // Check cache first
-      if (
-        cache &&
-        offset >= cache.start &&
-        offset + size <= cache.start + cache.data.byteLength
-      ) {
-        // onStatus(`Reading from cache: ${offset}-${offset + size}`);
-        const startIdx = offset - cache.start;
-        return cache.data.subarray(startIdx, startIdx + size);
-      }
+export interface ReportOptions {
+  // Every field MediaInfo knows about, not just the common ones
+  full?: boolean;
+  // Embedded artwork, base64 in the Cover_Data field
+  coverData?: boolean;
+}
 
-      // Calculate fetch size (prefetch)
-      // If requested size is larger than prefetch, fetch what's needed.
-      // Otherwise fetch prefetch size, but don't exceed fileSize.
-      let fetchSize = Math.max(size, PREFETCH_SIZE);
-      if (fileSize > 0 && offset + fetchSize > fileSize) {
-        fetchSize = fileSize - offset;
-      }
+export interface AnalyzeOptions extends ReportOptions {
+  locateFile?: (path: string, prefix: string) => string;
+  onFileType?: (fileType: DetectedFileType) => void;
+  // Stops the analysis at MediaInfo's next read; the call then rejects with
+  // the signal's reason
+  signal?: AbortSignal;
+  // Bytes handed to MediaInfo so far, against the source size
+  onProgress?: (bytesRead: number, total: number) => void;
+  // Chunks kept for rendering further formats, MAX_REPLAY_BYTES by default
+  replayBytes?: number;
+}
 
-      // If the remaining data is tiny or invalid, just fetch what is asked
-      if (fetchSize < size) fetchSize = size;
-
-      onStatus(
-        `Net Fetch: ${offset}-${offset + fetchSize} (${(
-          fetchSize /
-          1024 /
-          1024
-        ).toFixed(2)} MB)...`,
-      );
-
-      const response = await fetch(
-        `/resources/proxy?url=${encodeURIComponent(url)}`,
-        {
-          method: 'GET',
-          headers: {
-            Range: `bytes=${offset}-${offset + fetchSize - 1}`,
-          },
-        },
-      );
-
-      if (!response.ok) {
-        if (response.status !== 206) {
-          throw new Error(
-            `Expected Partial Content (206) but got ${response.status}. Upstream might not support Range requests.`,
-          );
-        }
-      } else if (response.status === 200) {
-        throw new Error(
-          'Upstream returned 200 OK (Full File) instead of 206 Partial Content. Aborting to prevent full download.',
-        );
-      }
+export interface AnalyzeMediaOptions extends AnalyzeOptions {
+  fetchUpstream?: UpstreamFetch;
+  streaming?: StreamingOptions;
+}
 
-      const buffer = await response.arrayBuffer();
-      const data = new Uint8Array(buffer);
+// mediainfo.js has no way to stop a session, but a failing read ends it
+const guardedReader = (
+  source: ByteSource,
+  { signal, onProgress }: AnalyzeOptions,
+): ByteSource['readChunk'] => {
+  let bytesRead = 0;
+  return async (size, offset) => {
+    signal?.throwIfAborted();
+    const data = await source.readChunk(size, offset);
+    signal?.throwIfAborted();
+    bytesRead += data.byteLength;
+    onProgress?.(Math.min(bytesRead, source.size), source.size);
+    return data;
+  };
+};
 
-      // Update cache
-      cache = {
-        start: offset,
-        data: data,
-      };
+export async function analyzeMedia(
+  url: string,
+  onResult: (text: string) => void,
+  onStatus: (status: string) => void,
+  format: string = 'text',
+  options: AnalyzeMediaOptions = {},
+): Promise<string> {
+  // HLS and DASH are sampled rendition by rendition, not read as one file
+  if (getManifestKind(url)) {
+    const { locateFile, signal, full } = options;
+    const report = await analyzeManifest(url, onStatus, {
+      fetchUpstream: options.fetchUpstream,
+      signal,
+      analyze: async (source) =>
+        (
+          await analyzeSourceFormats(source, [], () => {}, {
+            locateFile,
+            signal,
+            full,
+          })
+        ).object,
+    });
+    const output =
+      format === 'JSON' || format === 'object'
+        ? JSON.stringify(report, null, 2)
+        : renderManifestText(report);
+    onResult(output);
+    return output;
+  }
 
-      // Return the requested slice from the newly fetched data
-      // fetchSize >= size, so 0 to size
-      return data.subarray(0, size);
-    };
+  const source = await openUrlSource(url, onStatus, options.fetchUpstream, {
+    streaming: options.streaming,
+    signal: options.signal,
+  });
+  return analyzeSource(source, onResult, onStatus, format, options);
+}
+
+export async function analyzeFile(
+  file: Blob,
+  onResult: (text: string) => void,
+  onStatus: (status: string) => void,
+  format: string = 'text',
+  options: AnalyzeOptions = {},
+): Promise<string> {
+  const source = await openFileSource(file, onStatus);
+  return analyzeSource(source, onResult, onStatus, format, options);
+}
+
+// Source-agnostic core: runs MediaInfo over any ByteSource
+export async function analyzeSource(
+  source: ByteSource,
+  onResult: (text: string) => void,
+  onStatus: (status: string) => void,
+  format: string = 'text',
+  options: AnalyzeOptions = {},
+): Promise<string> {
+  const { locateFile = () => '/MediaInfoModule.wasm', onFileType } = options;
 
+  onFileType?.(source.fileType);
+
+  const mediainfo = await loadMediaInfo(format, locateFile, onStatus, options);
+
+  try {
     onStatus('Starting analysis...');
-    const result = await mediainfo.analyzeData(getSize, readChunk);
+    const result = await mediainfo.analyzeData(
+      () => {
+        onStatus(`File size: ${(source.size / (1024 * 1024)).toFixed(2)} MB`);
+        return source.size;
+      },
+      guardedReader(source, options),
+    );
 
     if (typeof result === 'string') {
       // "text", "HTML", "XML" return string
@@ -236,9 +168,109 @@ export async function analyzeMedia(
       return json;
     }
   } catch (error) {
-    console.error('MediaInfo analysis failed:', error);
+    if (!options.signal?.aborted) {
+      console.error('MediaInfo analysis failed:', error);
+    }
     throw error;
   } finally {
     mediainfo.close();
+    source.close?.();
+  }
+}
+
+export interface MultiFormatResult {
+  object: MediaInfoResult;
+  // Keyed by MediaInfo format (text, JSON, XML, ...)
+  reports: Record<string, string>;
+}
+
+// What the replay keeps in memory by default. The Worker passes far less:
+// its 128 MB also hold the block cache and the MediaInfo WASM heaps.
+const MAX_REPLAY_BYTES = 32 * 1024 * 1024;
+
+// One network pass, several outputs. The first run produces the object form
+// and records every chunk MediaInfo asked for. Output format doesn't change
+// how MediaInfo parses, so the other formats replay those chunks instead of
+// hitting the source again, up to `replayBytes` of them.
+export async function analyzeSourceFormats(
+  source: ByteSource,
+  formats: string[],
+  onStatus: (status: string) => void,
+  options: AnalyzeOptions = {},
+): Promise<MultiFormatResult> {
+  const {
+    locateFile = () => '/MediaInfoModule.wasm',
+    onFileType,
+    replayBytes = MAX_REPLAY_BYTES,
+  } = options;
+
+  onFileType?.(source.fileType);
+
+  const readChunk = guardedReader(source, options);
+  const recorded = new Map<string, Uint8Array>();
+  let recordedBytes = 0;
+  const recordingRead = async (size: number, offset: number) => {
+    const data = await readChunk(size, offset);
+    // Past the budget, replays read those chunks from the source again
+    if (recordedBytes + data.byteLength <= replayBytes) {
+      recorded.set(`${offset}:${size}`, data);
+      recordedBytes += data.byteLength;
+    }
+    return data;
+  };
+  const replayRead = async (size: number, offset: number) => {
+    options.signal?.throwIfAborted();
+    return recorded.get(`${offset}:${size}`) ?? readChunk(size, offset);
+  };
+
+  const run = async (
+    format: string,
+    readChunk: ByteSource['readChunk'],
+  ): Promise<string | MediaInfoResult> => {
+    const mediainfo = await loadMediaInfo(
+      format,
+      locateFile,
+      onStatus,
+      options,
+    );
+    try {
+      return await mediainfo.analyzeData(() => source.size, readChunk);
+    } finally {
+      mediainfo.close();
+    }
+  };
+
+  try {
+    onStatus('Starting analysis...');
+    const object = (await run('object', recordingRead)) as MediaInfoResult;
+
+    const reports: Record<string, string> = {};
+    for (const format of formats) {
+      if (format === 'object') continue;
+      // Our own formats are built from the object output, no rerun needed
+      const formatter = REPORT_FORMATTERS[format];
+      if (formatter) {
+        reports[format] = formatter.render(
+          object,
+          source.fileType.filename ?? source.name,
+        );
+        continue;
+      }
+      options.signal?.throwIfAborted();
+      onStatus(`Rendering ${format} report...`);
+      const result = await run(format, replayRead);
+      reports[format] =
+        typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+    }
+
+    onStatus('Analysis complete!');
+    return { object, reports };
+  } catch (error) {
+    if (!options.signal?.aborted) {
+      console.error('MediaInfo analysis failed:', error);
+    }
+    throw error;
+  } finally {
+    source.close?.();
   }
 }
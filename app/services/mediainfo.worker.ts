@@ -0,0 +1,125 @@
+// Runs MediaInfo off the main thread. See mediainfo-protocol.ts for the
+// messages; mediainfo-client.ts is the page side.
+
+import { analyzeSourceFormats } from './mediainfo';
+import type { WorkerEvent, WorkerRequest } from './mediainfo-protocol';
+
+const post = (event: WorkerEvent) => postMessage(event);
+
+// mediainfo.js instantiates the WASM for every MediaInfo instance (one per
+// output format). Compile it once per worker and reuse the module.
+let compiled: Promise<WebAssembly.Module> | null = null;
+let wasmPatched = false;
+
+// A failed download isn't kept, the next analysis fetches it again
+const compileWasm = (wasmUrl: string) =>
+  (compiled ??= WebAssembly.compileStreaming(fetch(wasmUrl)).catch((error) => {
+    compiled = null;
+    throw error;
+  }));
+
+const patchWasmLoader = (wasmUrl: string) => {
+  if (wasmPatched) return;
+  wasmPatched = true;
+  const instantiate = WebAssembly.instantiate.bind(WebAssembly);
+  const instantiateCompiled = async (imports?: WebAssembly.Imports) => {
+    const module = await compileWasm(wasmUrl);
+    return { module, instance: await instantiate(module, imports) };
+  };
+  Object.assign(WebAssembly, {
+    instantiateStreaming: async (
+      response: Promise<Response>,
+      imports?: WebAssembly.Imports,
+    ) => {
+      // Already compiled, the fresh download isn't needed
+      void Promise.resolve(response).then((r) => r.body?.cancel());
+      return instantiateCompiled(imports);
+    },
+    instantiate: (source: unknown, imports?: WebAssembly.Imports) =>
+      source instanceof WebAssembly.Module
+        ? instantiate(source, imports)
+        : instantiateCompiled(imports),
+  });
+};
+
+const controllers = new Map<number, AbortController>();
+const pendingReads = new Map<
+  string,
+  { resolve: (data: Uint8Array) => void; reject: (error: Error) => void }
+>();
+let nextReadId = 0;
+
+const analyze = async (
+  request: Extract<WorkerRequest, { type: 'analyze' }>,
+) => {
+  const { id } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  patchWasmLoader(request.wasmUrl);
+
+  // Every read goes back to the page, which owns the actual source
+  const readChunk = (size: number, offset: number) =>
+    new Promise<Uint8Array>((resolve, reject) => {
+      const readId = nextReadId++;
+      pendingReads.set(`${id}:${readId}`, { resolve, reject });
+      post({ type: 'read', id, readId, size, offset });
+    });
+
+  try {
+    const result = await analyzeSourceFormats(
+      {
+        name: request.name,
+        size: request.size,
+        fileType: request.fileType,
+        readChunk,
+      },
+      request.formats,
+      (message) => post({ type: 'status', id, message }),
+      {
+        locateFile: () => request.wasmUrl,
+        full: request.full,
+        coverData: request.coverData,
+        signal: controller.signal,
+        onProgress: (bytesRead, total) =>
+          post({ type: 'progress', id, bytesRead, total }),
+      },
+    );
+    post({ type: 'result', id, result });
+  } catch (error) {
+    post({
+      type: 'error',
+      id,
+      message: error instanceof Error ? error.message : 'Analysis failed',
+    });
+  } finally {
+    controllers.delete(id);
+  }
+};
+
+addEventListener('message', (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'analyze':
+      void analyze(request);
+      break;
+    case 'chunk':
+    case 'chunk-error': {
+      const key = `${request.id}:${request.readId}`;
+      const pending = pendingReads.get(key);
+      pendingReads.delete(key);
+      if (request.type === 'chunk') pending?.resolve(request.data);
+      else pending?.reject(new Error(request.message));
+      break;
+    }
+    case 'cancel':
+      controllers.get(request.id)?.abort();
+      // Don't wait on reads the page will no longer answer
+      for (const [key, pending] of pendingReads) {
+        if (key.startsWith(`${request.id}:`)) {
+          pendingReads.delete(key);
+          pending.reject(new Error('Analysis cancelled'));
+        }
+      }
+      break;
+  }
+});
@@ -0,0 +1,61 @@
+// Password hashing with PBKDF2 from WebCrypto, so it runs in the Worker
+// without native dependencies. Hashes are stored as
+// "pbkdf2-sha256$<iterations>$<salt>$<hash>" with base64 salt and hash.
+
+// Workers cap PBKDF2 at 100k iterations
+const ITERATIONS = 100_000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+const SCHEME = 'pbkdf2-sha256';
+
+const encoder = new TextEncoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const derive = async (
+  password: string,
+  salt: BufferSource,
+  iterations: number,
+) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    HASH_BITS,
+  );
+  return new Uint8Array(bits);
+};
+
+// Compares every byte so the time taken doesn't leak where they differ
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return [SCHEME, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$');
+  if (scheme !== SCHEME || !salt || !hash) return false;
+
+  const expected = fromBase64(hash);
+  const actual = await derive(password, fromBase64(salt), Number(iterations));
+  return constantTimeEqual(actual, expected);
+}
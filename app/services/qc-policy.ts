@@ -0,0 +1,434 @@
+import type { MediaInfoResult, Track } from 'mediainfo.js';
+import { parse as parseYaml } from 'yaml';
+
+import { getTracks } from './media-summary';
+
+type TrackType = Track['@type'];
+
+const TRACK_TYPES: TrackType[] = [
+  'General',
+  'Video',
+  'Audio',
+  'Text',
+  'Menu',
+  'Image',
+  'Other',
+];
+
+type Scalar = string | number | boolean;
+
+// What a field value has to satisfy. All given checks must hold; a condition
+// without any check only requires the field to be present.
+export interface QcCondition {
+  equals?: Scalar;
+  oneOf?: Scalar[];
+  // Case-insensitive regular expression
+  matches?: string;
+  min?: number;
+  max?: number;
+  exists?: boolean;
+}
+
+export interface QcRule extends QcCondition {
+  description?: string;
+  track: TrackType;
+  // Checked on every track of the type (after `where`)
+  field?: string;
+  // Only consider tracks matching these fields, e.g. { Language: 'en' }
+  where?: Record<string, Scalar | QcCondition>;
+  // Number of (matching) tracks
+  count?: { min?: number; max?: number };
+  // Failed "warning" rules don't fail the whole policy
+  severity?: 'error' | 'warning';
+}
+
+export interface QcPolicy {
+  name: string;
+  description?: string;
+  rules: QcRule[];
+}
+
+export type QcStatus = 'pass' | 'warn' | 'fail';
+
+export interface QcOffender {
+  // e.g. "Audio #2"
+  track: string;
+  field: string | null;
+  actual: string | null;
+}
+
+export interface QcRuleResult {
+  label: string;
+  status: QcStatus;
+  message: string;
+  offenders: QcOffender[];
+}
+
+export interface QcReport {
+  policy: string;
+  status: QcStatus;
+  results: QcRuleResult[];
+}
+
+// Delivery specs to start from, selectable by id
+export const QC_PRESETS: Record<string, QcPolicy> = {
+  'uhd-hdr10': {
+    name: 'UHD HDR10 delivery',
+    rules: [
+      { track: 'Video', field: 'Format', equals: 'HEVC' },
+      { track: 'Video', field: 'Format_Profile', matches: '^Main 10' },
+      { track: 'Video', field: 'Width', equals: 3840 },
+      { track: 'Video', field: 'Height', equals: 2160 },
+      { track: 'Video', field: 'FrameRate', equals: 23.976 },
+      {
+        description: 'HDR10 metadata present',
+        track: 'Video',
+        field: 'HDR_Format_Compatibility',
+        matches: 'HDR10',
+      },
+      { track: 'Audio', count: { min: 2 } },
+      {
+        description: 'English subtitles',
+        track: 'Text',
+        where: { Language: { matches: '^en' } },
+        count: { min: 1 },
+      },
+    ],
+  },
+  'hd-web': {
+    name: 'HD web streaming',
+    rules: [
+      { track: 'General', field: 'Format', oneOf: ['MPEG-4', 'WebM'] },
+      { track: 'Video', count: { min: 1, max: 1 } },
+      { track: 'Video', field: 'Format', oneOf: ['AVC', 'HEVC', 'VP9', 'AV1'] },
+      { track: 'Video', field: 'Height', max: 1080 },
+      { track: 'Audio', count: { min: 1 } },
+      { track: 'Audio', field: 'Format', oneOf: ['AAC', 'Opus'] },
+      {
+        track: 'Audio',
+        field: 'SamplingRate',
+        equals: 48000,
+        severity: 'warning',
+      },
+    ],
+  },
+};
+
+// Frame rates and the like come back with more decimals than anyone types
+const NUMBER_TOLERANCE = 0.001;
+
+// Own properties only: "constructor" or "__proto__" are missing fields, not
+// whatever the prototype has under that name
+const ownValue = (record: object | undefined, field: string) =>
+  record && Object.hasOwn(record, field)
+    ? (record as Record<string, unknown>)[field]
+    : undefined;
+
+const readField = (track: Track, field: string): unknown =>
+  ownValue(track, field) ?? ownValue(track.extra, field);
+
+// Patterns that pass validation can still be polynomial (".*.*x"); short
+// inputs keep that cheap
+const MAX_MATCHED_LENGTH = 256;
+
+const stringify = (value: unknown) =>
+  value === undefined || value === null
+    ? null
+    : typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value);
+
+const scalarEquals = (actual: unknown, expected: Scalar) => {
+  const a = Number(actual);
+  if (typeof expected === 'number' && !Number.isNaN(a)) {
+    return Math.abs(a - expected) < NUMBER_TOLERANCE;
+  }
+  return String(actual).toLowerCase() === String(expected).toLowerCase();
+};
+
+// Returns why the value doesn't satisfy the condition, or null if it does
+const checkCondition = (
+  value: unknown,
+  condition: QcCondition,
+): string | null => {
+  const present = value !== undefined && value !== null && value !== '';
+  const { exists = true } = condition;
+
+  if (!exists) return present ? 'should not be set' : null;
+  if (!present) return 'is missing';
+
+  if (
+    condition.equals !== undefined &&
+    !scalarEquals(value, condition.equals)
+  ) {
+    return `expected ${condition.equals}`;
+  }
+  if (
+    condition.oneOf &&
+    !condition.oneOf.some((expected) => scalarEquals(value, expected))
+  ) {
+    return `expected one of ${condition.oneOf.join(', ')}`;
+  }
+  if (condition.matches !== undefined) {
+    const text = String(value);
+    if (text.length > MAX_MATCHED_LENGTH) {
+      return `is longer than ${MAX_MATCHED_LENGTH} characters, too long to match /${condition.matches}/`;
+    }
+    if (!new RegExp(condition.matches, 'i').test(text)) {
+      return `expected to match /${condition.matches}/`;
+    }
+  }
+  if (condition.min !== undefined || condition.max !== undefined) {
+    const number = Number(value);
+    if (Number.isNaN(number)) return 'is not a number';
+    if (condition.min !== undefined && number < condition.min) {
+      return `expected at least ${condition.min}`;
+    }
+    if (condition.max !== undefined && number > condition.max) {
+      return `expected at most ${condition.max}`;
+    }
+  }
+  return null;
+};
+
+const describeCondition = (condition: QcCondition) => {
+  if (condition.exists === false) return 'is not set';
+  if (condition.equals !== undefined) return `= ${condition.equals}`;
+  if (condition.oneOf) return `in ${condition.oneOf.join(' / ')}`;
+  if (condition.matches !== undefined) return `~ /${condition.matches}/`;
+  if (condition.min !== undefined && condition.max !== undefined) {
+    return `${condition.min}–${condition.max}`;
+  }
+  if (condition.min !== undefined) return `≥ ${condition.min}`;
+  if (condition.max !== undefined) return `≤ ${condition.max}`;
+  return 'is present';
+};
+
+const describeRule = (rule: QcRule) => {
+  if (rule.description) return rule.description;
+  const where = rule.where
+    ? ` where ${Object.keys(rule.where).join(', ')} match`
+    : '';
+  if (rule.field) {
+    return `${rule.track} ${rule.field} ${describeCondition(rule)}${where}`;
+  }
+  return `${rule.track} tracks ${describeCondition(rule.count ?? {})}${where}`;
+};
+
+const trackLabel = (track: Track, index: number, count: number) =>
+  count > 1 ? `${track['@type']} #${index + 1}` : track['@type'];
+
+export function evaluateRule(
+  result: MediaInfoResult,
+  rule: QcRule,
+): QcRuleResult {
+  const label = describeRule(rule);
+  const failed: QcStatus = rule.severity === 'warning' ? 'warn' : 'fail';
+
+  const all = getTracks(result, rule.track);
+  const tracks = all.filter((track) =>
+    Object.entries(rule.where ?? {}).every(([field, expected]) => {
+      const condition =
+        typeof expected === 'object' ? expected : { equals: expected };
+      return checkCondition(readField(track, field), condition) === null;
+    }),
+  );
+
+  if (rule.count) {
+    const reason = checkCondition(tracks.length, rule.count);
+    if (reason) {
+      return {
+        label,
+        status: failed,
+        message: `Found ${tracks.length} ${rule.track} track(s), ${reason}`,
+        offenders: [{ track: rule.track, field: null, actual: null }],
+      };
+    }
+  }
+
+  if (rule.field) {
+    const field = rule.field;
+    if (tracks.length === 0) {
+      return {
+        label,
+        // Nothing to check, which is only fine if the count allowed for it
+        status: rule.count ? 'pass' : failed,
+        message: `No ${rule.track} track`,
+        offenders: rule.count
+          ? []
+          : [{ track: rule.track, field, actual: null }],
+      };
+    }
+
+    const offenders: QcOffender[] = [];
+    const reasons: string[] = [];
+    for (const track of tracks) {
+      const value = readField(track, field);
+      const reason = checkCondition(value, rule);
+      if (reason) {
+        const index = all.indexOf(track);
+        offenders.push({
+          track: trackLabel(track, index, all.length),
+          field,
+          actual: stringify(value),
+        });
+        reasons.push(reason);
+      }
+    }
+
+    if (offenders.length > 0) {
+      const [first] = offenders;
+      const actual = first.actual === null ? '' : `is ${first.actual}, `;
+      const more =
+        offenders.length > 1 ? ` (+${offenders.length - 1} more)` : '';
+      return {
+        label,
+        status: failed,
+        message: `${first.track} ${field} ${actual}${reasons[0]}${more}`,
+        offenders,
+      };
+    }
+  }
+
+  return { label, status: 'pass', message: 'OK', offenders: [] };
+}
+
+export function evaluatePolicy(
+  result: MediaInfoResult,
+  policy: QcPolicy,
+): QcReport {
+  const results = policy.rules.map((rule) => evaluateRule(result, rule));
+  const status: QcStatus = results.some((r) => r.status === 'fail')
+    ? 'fail'
+    : results.some((r) => r.status === 'warn')
+      ? 'warn'
+      : 'pass';
+  return { policy: policy.name, status, results };
+}
+
+const invalid = (message: string): never => {
+  throw new Error(`Invalid QC policy: ${message}`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isScalar = (value: unknown): value is Scalar =>
+  ['string', 'number', 'boolean'].includes(typeof value);
+
+// Policies come from API callers, and their patterns run in the Worker.
+// Short, and no quantified group that itself contains a quantifier or
+// alternation: the shapes behind catastrophic backtracking. Each unbounded
+// quantifier multiplies the work on top, so only a couple are allowed.
+const MAX_PATTERN_LENGTH = 200;
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[+*?}|](?:[^()\\]|\\.)*\)[+*{]/;
+const UNBOUNDED_QUANTIFIER = /(?<!\\)(?:[*+]|\{\d*,\})/g;
+const MAX_UNBOUNDED_QUANTIFIERS = 2;
+
+const validatePattern = (pattern: unknown, at: string) => {
+  if (typeof pattern !== 'string') {
+    return invalid(`${at} "matches" must be a string`);
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return invalid(
+      `${at} "matches" is longer than ${MAX_PATTERN_LENGTH} characters`,
+    );
+  }
+  if (NESTED_QUANTIFIER.test(pattern) || /\\[1-9]/.test(pattern)) {
+    return invalid(
+      `${at} "matches" has nested quantifiers or backreferences, which can take forever to evaluate`,
+    );
+  }
+  if (
+    (pattern.match(UNBOUNDED_QUANTIFIER)?.length ?? 0) >
+    MAX_UNBOUNDED_QUANTIFIERS
+  ) {
+    return invalid(
+      `${at} "matches" has more than ${MAX_UNBOUNDED_QUANTIFIERS} unbounded quantifiers (*, +, {n,})`,
+    );
+  }
+  try {
+    new RegExp(pattern, 'i');
+  } catch {
+    return invalid(`${at} has an invalid "matches" pattern`);
+  }
+};
+
+const validateCondition = (condition: Record<string, unknown>, at: string) => {
+  const { equals, oneOf, matches, min, max, exists } = condition;
+  if (equals !== undefined && !isScalar(equals)) {
+    invalid(`${at} "equals" must be a string, number or boolean`);
+  }
+  if (
+    oneOf !== undefined &&
+    (!Array.isArray(oneOf) || !oneOf.every(isScalar))
+  ) {
+    invalid(`${at} "oneOf" must be a list of values`);
+  }
+  if (matches !== undefined) validatePattern(matches, at);
+  for (const [name, bound] of [
+    ['min', min],
+    ['max', max],
+  ] as const) {
+    if (bound !== undefined && !Number.isFinite(bound)) {
+      invalid(`${at} "${name}" must be a number`);
+    }
+  }
+  if (exists !== undefined && typeof exists !== 'boolean') {
+    invalid(`${at} "exists" must be true or false`);
+  }
+};
+
+const validateRule = (rule: unknown, index: number): QcRule => {
+  const at = `rule ${index + 1}`;
+  if (!isRecord(rule)) return invalid(`${at} is not an object`);
+  if (!TRACK_TYPES.includes(rule.track as TrackType)) {
+    return invalid(
+      `${at} has unknown track "${String(rule.track)}". Expected one of: ${TRACK_TYPES.join(', ')}`,
+    );
+  }
+  if (rule.field === undefined && rule.count === undefined) {
+    return invalid(`${at} needs a "field" or a "count"`);
+  }
+  if (rule.field !== undefined && typeof rule.field !== 'string') {
+    return invalid(`${at} "field" must be a string`);
+  }
+  if (rule.count !== undefined && !isRecord(rule.count)) {
+    return invalid(`${at} "count" must be an object with min/max`);
+  }
+  if (rule.where !== undefined && !isRecord(rule.where)) {
+    return invalid(`${at} "where" must be an object`);
+  }
+  validateCondition(rule, at);
+  if (rule.count !== undefined) {
+    validateCondition(rule.count as Record<string, unknown>, `${at} "count"`);
+  }
+  for (const [field, expected] of Object.entries(rule.where ?? {})) {
+    if (isRecord(expected)) {
+      validateCondition(expected, `${at} "where.${field}"`);
+    } else if (!isScalar(expected)) {
+      return invalid(`${at} "where.${field}" must be a value or a condition`);
+    }
+  }
+  return rule as unknown as QcRule;
+};
+
+// Accepts JSON or YAML (YAML is a superset, one parser does both)
+export function parsePolicy(text: string): QcPolicy {
+  let data: unknown;
+  try {
+    data = parseYaml(text);
+  } catch (error) {
+    return invalid(error instanceof Error ? error.message : 'parse error');
+  }
+
+  if (!isRecord(data)) return invalid('expected an object with "rules"');
+  if (!Array.isArray(data.rules)) return invalid('"rules" must be a list');
+
+  return {
+    name: typeof data.name === 'string' ? data.name : 'Custom policy',
+    description:
+      typeof data.description === 'string' ? data.description : undefined,
+    rules: data.rules.map(validateRule),
+  };
+}
@@ -0,0 +1,126 @@
+import type { MediaInfoResult, Track } from 'mediainfo.js';
+
+import { trackEntries } from './media-summary';
+
+// Relative to the left (reference) file: "added" only exists on the right
+export type FieldChange = 'same' | 'added' | 'removed' | 'changed';
+
+export interface FieldDiff {
+  field: string;
+  left: string | null;
+  right: string | null;
+  change: FieldChange;
+}
+
+export interface TrackDiff {
+  // e.g. "Audio #2"
+  label: string;
+  type: Track['@type'];
+  index: number;
+  inLeft: boolean;
+  inRight: boolean;
+  fields: FieldDiff[];
+}
+
+export interface ReportDiff {
+  left: string;
+  right: string;
+  tracks: TrackDiff[];
+}
+
+const TRACK_ORDER: Track['@type'][] = [
+  'General',
+  'Video',
+  'Audio',
+  'Text',
+  'Menu',
+  'Image',
+  'Other',
+];
+
+// Fields that always differ between two files and say nothing about them
+const IGNORED_FIELDS = new Set([
+  'CompleteName',
+  'FileNameExtension',
+  'FileName',
+  'FolderName',
+  'File_Modified_Date',
+  'File_Modified_Date_Local',
+  'UniqueID',
+]);
+
+const stringify = (value: unknown) =>
+  typeof value === 'object' && value !== null
+    ? JSON.stringify(value)
+    : String(value);
+
+const fieldMap = (track: Track | undefined) =>
+  new Map(
+    track
+      ? trackEntries(track)
+          .filter(([key]) => !IGNORED_FIELDS.has(key))
+          .map(([key, value]) => [key, stringify(value)])
+      : [],
+  );
+
+const tracksByType = (result: MediaInfoResult) => {
+  const grouped = new Map<Track['@type'], Track[]>();
+  for (const track of result.media?.track ?? []) {
+    grouped.set(track['@type'], [
+      ...(grouped.get(track['@type']) ?? []),
+      track,
+    ]);
+  }
+  return grouped;
+};
+
+export const hasChanges = (track: TrackDiff) =>
+  track.fields.some((field) => field.change !== 'same');
+
+// Tracks are aligned by type and by their position among tracks of that type
+export function diffResults(
+  left: MediaInfoResult,
+  right: MediaInfoResult,
+  names: { left: string; right: string },
+): ReportDiff {
+  const leftTracks = tracksByType(left);
+  const rightTracks = tracksByType(right);
+  const tracks: TrackDiff[] = [];
+
+  for (const type of TRACK_ORDER) {
+    const a = leftTracks.get(type) ?? [];
+    const b = rightTracks.get(type) ?? [];
+    const count = Math.max(a.length, b.length);
+
+    for (let index = 0; index < count; index++) {
+      const leftFields = fieldMap(a[index]);
+      const rightFields = fieldMap(b[index]);
+      const keys = Array.from(
+        new Set([...leftFields.keys(), ...rightFields.keys()]),
+      );
+
+      tracks.push({
+        label: count > 1 ? `${type} #${index + 1}` : type,
+        type,
+        index,
+        inLeft: index < a.length,
+        inRight: index < b.length,
+        fields: keys.map((field) => {
+          const l = leftFields.get(field) ?? null;
+          const r = rightFields.get(field) ?? null;
+          const change: FieldChange =
+            l === null
+              ? 'added'
+              : r === null
+                ? 'removed'
+                : l === r
+                  ? 'same'
+                  : 'changed';
+          return { field, left: l, right: r, change };
+        }),
+      });
+    }
+  }
+
+  return { left: names.left, right: names.right, tracks };
+}
@@ -0,0 +1,52 @@
+import { strToU8, zipSync } from 'fflate';
+
+import { mediaBaseName } from './download';
+import type { MultiFormatResult } from './mediainfo';
+import { REPORT_FORMATTERS } from './report-formatters';
+
+export interface ReportFileType {
+  mimeType: string;
+  // Appended to the media base name: "movie" + ".ebucore.xml"
+  fileSuffix: string;
+}
+
+// What MediaInfo renders itself; our own formats carry their file type
+const NATIVE_FILE_TYPES: Record<string, ReportFileType> = {
+  text: { mimeType: 'text/plain', fileSuffix: '.txt' },
+  JSON: { mimeType: 'application/json', fileSuffix: '.json' },
+  XML: { mimeType: 'application/xml', fileSuffix: '.xml' },
+  HTML: { mimeType: 'text/html', fileSuffix: '.html' },
+  'EBUCore_1.8_ps': { mimeType: 'application/xml', fileSuffix: '.ebucore.xml' },
+};
+
+export const REPORT_FILE_TYPES: Record<string, ReportFileType> = {
+  ...NATIVE_FILE_TYPES,
+  ...REPORT_FORMATTERS,
+};
+
+// Unknown formats still download, as plain text
+export const reportFileType = (format: string): ReportFileType =>
+  REPORT_FILE_TYPES[format] ?? { mimeType: 'text/plain', fileSuffix: '.txt' };
+
+// "movie.mkv" + "csv" → "movie.tracks.csv"
+export const reportFilename = (name: string, format: string) =>
+  `${mediaBaseName(name)}${reportFileType(format).fileSuffix}`;
+
+// Every report of one run in a single zip
+export function buildReportsZip(
+  analysis: MultiFormatResult,
+  name: string,
+): Blob {
+  const files: Record<string, Uint8Array> = {};
+  for (const [format, content] of Object.entries(analysis.reports)) {
+    files[reportFilename(name, format)] = strToU8(content);
+  }
+  // The JSON report may not have been rendered; the object output always is
+  files[reportFilename(name, 'JSON')] ??= strToU8(
+    JSON.stringify(analysis.object, null, 2),
+  );
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+}
+
+export const reportsZipFilename = (name: string) =>
+  `${mediaBaseName(name)}.reports.zip`;
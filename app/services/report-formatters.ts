@@ -0,0 +1,314 @@
+import type { MediaInfoResult, Track } from 'mediainfo.js';
+
+import {
+  formatFieldValue,
+  getTracks,
+  trackEntries,
+  trackTitle,
+} from './media-summary';
+import type { ReportFileType } from './report-files';
+
+// Report formats MediaInfo doesn't produce itself, rendered from the object
+// output. They sit next to the native ones in FormatMenu and the API.
+export interface ReportFormatter extends ReportFileType {
+  label: string;
+  render: (result: MediaInfoResult, name: string) => string;
+}
+
+const tracksOf = (result: MediaInfoResult) => result.media?.track ?? [];
+
+// Tracks with their display titles ("Audio #2")
+const titledTracks = (result: MediaInfoResult) => {
+  const tracks = tracksOf(result);
+  return tracks.map((track) => {
+    const sameType = tracks.filter((t) => t['@type'] === track['@type']);
+    return {
+      track,
+      title: trackTitle(track, sameType.indexOf(track), sameType.length),
+    };
+  });
+};
+
+const rawValue = (value: unknown) =>
+  typeof value === 'object' && value !== null
+    ? JSON.stringify(value)
+    : String(value);
+
+const field = (track: Track | undefined, key: string) => {
+  const value = (track as unknown as Record<string, unknown> | undefined)?.[
+    key
+  ];
+  return value === undefined || value === ''
+    ? null
+    : formatFieldValue(key, value);
+};
+
+// Just the file name of a path or URL
+const displayName = (name: string) =>
+  name.split(/[?#]/)[0].split('/').pop() || name;
+
+// One row per track, every field as a column (RFC 4180 quoting)
+const renderCsv = (result: MediaInfoResult) => {
+  const tracks = titledTracks(result);
+  const columns: string[] = [];
+  for (const { track } of tracks) {
+    for (const [key] of trackEntries(track)) {
+      if (!columns.includes(key)) columns.push(key);
+    }
+  }
+
+  // Tag values are free text: one starting with = + - @ would run as a
+  // formula in a spreadsheet, so it gets a leading quote. Numbers are safe.
+  const neutralize = (value: string) =>
+    /^[=+\-@]/.test(value) && !/^-?\d+(\.\d+)?$/.test(value)
+      ? `'${value}`
+      : value;
+  const quote = (raw: string) => {
+    const value = neutralize(raw);
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+
+  const rows = tracks.map(({ track, title }) => {
+    const values = new Map(trackEntries(track));
+    return [
+      title,
+      ...columns.map((key) =>
+        values.has(key) ? rawValue(values.get(key)) : '',
+      ),
+    ];
+  });
+
+  return [['Track', ...columns], ...rows]
+    .map((row) => row.map(quote).join(','))
+    .join('\r\n');
+};
+
+// What a ticket needs: the container line and one table row per stream
+const renderMarkdown = (result: MediaInfoResult, name: string) => {
+  const [general] = getTracks(result, 'General');
+  const cell = (value: string | null) =>
+    (value ?? '—').replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+  const overview = [
+    field(general, 'Format'),
+    field(general, 'Duration'),
+    field(general, 'FileSize'),
+    field(general, 'OverallBitRate'),
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const details = (track: Track) => {
+    switch (track['@type']) {
+      case 'Video':
+        return [
+          track.Width && track.Height ? `${track.Width}×${track.Height}` : null,
+          field(track, 'FrameRate'),
+          track.BitDepth ? `${track.BitDepth}-bit` : null,
+          track.HDR_Format ?? null,
+        ];
+      case 'Audio':
+        return [
+          track.Channels ? `${track.Channels}ch` : null,
+          field(track, 'SamplingRate'),
+        ];
+      case 'Text':
+        return [
+          track.Title ?? null,
+          track.Forced === 'Yes' ? 'forced' : null,
+          track.Default === 'Yes' ? 'default' : null,
+        ];
+      default:
+        return [];
+    }
+  };
+
+  const rows = titledTracks(result)
+    .filter(({ track }) => track['@type'] !== 'General')
+    .map(({ track, title }) =>
+      [
+        title,
+        field(track, 'Format'),
+        field(track, 'Language'),
+        details(track).filter(Boolean).join(', ') || null,
+        field(track, 'BitRate'),
+      ]
+        .map(cell)
+        .join(' | '),
+    );
+
+  return [
+    `### ${displayName(name)}`,
+    '',
+    overview,
+    '',
+    '| Track | Format | Language | Details | Bitrate |',
+    '| --- | --- | --- | --- | --- |',
+    ...rows.map((row) => `| ${row} |`),
+    '',
+  ].join('\n');
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Self-contained page that reads well on screen and prints one track per
+// block without splitting tables across pages
+const renderPrintableHtml = (result: MediaInfoResult, name: string) => {
+  const title = escapeHtml(displayName(name));
+  const sections = titledTracks(result)
+    .map(({ track, title: heading }) => {
+      const rows = trackEntries(track)
+        .map(
+          ([key, value]) =>
+            `<tr><th>${escapeHtml(key)}</th><td>${escapeHtml(
+              formatFieldValue(key, value),
+            )}</td></tr>`,
+        )
+        .join('\n');
+      return `<section><h2>${escapeHtml(heading)}</h2><table>\n${rows}\n</table></section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title} - MediaPeek report</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; color: #111; margin: 2rem auto; max-width: 960px; padding: 0 1rem; }
+  h1 { font-size: 1.4rem; margin-bottom: 0.25rem; word-break: break-all; }
+  .meta { color: #666; font-size: 12px; margin-bottom: 1.5rem; }
+  h2 { font-size: 1rem; border-bottom: 2px solid #111; padding-bottom: 0.25rem; margin: 1.5rem 0 0.5rem; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 3px 8px; border-bottom: 1px solid #e5e5e5; }
+  th { width: 35%; font-weight: 500; color: #444; }
+  td { font-family: ui-monospace, monospace; font-size: 12px; word-break: break-word; }
+  @media print {
+    body { margin: 0; max-width: none; font-size: 11px; }
+    section { break-inside: avoid; }
+  }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p class="meta">MediaInfo report generated by MediaPeek</p>
+${sections}
+</body>
+</html>
+`;
+};
+
+const NFO_WIDTH = 72;
+const NFO_LABEL_WIDTH = 20;
+
+// Scene-style release info: plain ASCII, fixed width, dotted labels
+const renderNfo = (result: MediaInfoResult, name: string) => {
+  const rule = '='.repeat(NFO_WIDTH);
+  const center = (text: string) =>
+    text.padStart(Math.floor((NFO_WIDTH + text.length) / 2)).trimEnd();
+  const line = (label: string, value: string | null) =>
+    value ? `  ${`${label} `.padEnd(NFO_LABEL_WIDTH, '.')}: ${value}` : null;
+
+  const trackLines = (track: Track) => {
+    switch (track['@type']) {
+      case 'General':
+        return [
+          line('Container', field(track, 'Format')),
+          line('Duration', field(track, 'Duration')),
+          line('Size', field(track, 'FileSize')),
+          line('Overall bitrate', field(track, 'OverallBitRate')),
+        ];
+      case 'Video':
+        return [
+          line(
+            'Codec',
+            [track.Format, track.Format_Profile].filter(Boolean).join(' ') ||
+              null,
+          ),
+          line(
+            'Resolution',
+            track.Width && track.Height
+              ? `${track.Width}x${track.Height}`
+              : null,
+          ),
+          line('Aspect ratio', field(track, 'DisplayAspectRatio')),
+          line('Frame rate', field(track, 'FrameRate')),
+          line('Bitrate', field(track, 'BitRate')),
+          line('Bit depth', track.BitDepth ? `${track.BitDepth} bits` : null),
+          line('HDR', track.HDR_Format ?? null),
+        ];
+      case 'Audio':
+        return [
+          line('Codec', field(track, 'Format')),
+          line('Language', field(track, 'Language')),
+          line('Channels', field(track, 'Channels')),
+          line('Sampling rate', field(track, 'SamplingRate')),
+          line('Bitrate', field(track, 'BitRate')),
+          line('Title', field(track, 'Title')),
+        ];
+      case 'Text':
+        return [
+          line('Format', field(track, 'Format')),
+          line('Language', field(track, 'Language')),
+          line('Title', field(track, 'Title')),
+          line('Forced', field(track, 'Forced')),
+        ];
+      default:
+        return [line('Format', field(track, 'Format'))];
+    }
+  };
+
+  const sections = titledTracks(result)
+    .filter(({ track }) => track['@type'] !== 'Menu')
+    .map(({ track, title }) =>
+      [
+        `[ ${title.toUpperCase()} ]`,
+        ...trackLines(track).filter((entry) => entry !== null),
+      ].join('\n'),
+    );
+
+  return [
+    rule,
+    center(displayName(name)),
+    rule,
+    '',
+    sections.join('\n\n'),
+    '',
+    rule,
+    center('Generated by MediaPeek'),
+    rule,
+    '',
+  ].join('\n');
+};
+
+export const REPORT_FORMATTERS: Record<string, ReportFormatter> = {
+  csv: {
+    label: 'CSV (per track)',
+    mimeType: 'text/csv',
+    fileSuffix: '.tracks.csv',
+    render: renderCsv,
+  },
+  markdown: {
+    label: 'Markdown Summary',
+    mimeType: 'text/markdown',
+    fileSuffix: '.md',
+    render: renderMarkdown,
+  },
+  'print-html': {
+    label: 'Printable HTML',
+    mimeType: 'text/html',
+    fileSuffix: '.report.html',
+    render: renderPrintableHtml,
+  },
+  nfo: {
+    label: 'NFO (scene style)',
+    mimeType: 'text/plain',
+    fileSuffix: '.nfo',
+    render: renderNfo,
+  },
+};
@@ -1,40 +1,109 @@
-import { createCookie, redirect } from 'react-router';
-
-// Create a secure cookie for the session
-const sessionCookie = createCookie('mediapeek_session', {
-  secrets: ['s3cr3t-k3y-replace-this-in-prod'], // In production, use env variable
-  sameSite: 'lax',
-  path: '/',
-  httpOnly: true,
-  secure: process.env.NODE_ENV === 'production',
-  maxAge: 60 * 60 * 24 * 7, // 1 week
-});
-
-export async function createUserSession(redirectTo: string) {
+import { createCookie, createSessionStorage, redirect } from 'react-router';
+
+import { getAuthStore, getUser, type SessionUser } from './users.server';
+
+interface SessionData {
+  userId: string;
+}
+
+const SESSION_MAX_AGE = 60 * 60 * 24 * 7; // 1 week
+
+const sessionKey = (id: string) => `session:${id}`;
+
+// The cookie only holds a signed session ID; the data lives in KV so that
+// logging out (or deleting the user) ends the session on the server too.
+const getSessionStorage = (env: Env) => {
+  if (!env.SESSION_SECRET) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  const store = getAuthStore(env);
+
+  const write = (id: string, data: unknown, expires?: Date) =>
+    store.put(
+      sessionKey(id),
+      JSON.stringify(data),
+      expires
+        ? { expiration: Math.floor(expires.getTime() / 1000) }
+        : undefined,
+    );
+
+  return createSessionStorage<SessionData>({
+    cookie: createCookie('mediapeek_session', {
+      secrets: [env.SESSION_SECRET],
+      sameSite: 'lax',
+      path: '/',
+      httpOnly: true,
+      secure: import.meta.env.PROD,
+      maxAge: SESSION_MAX_AGE,
+    }),
+    async createData(data, expires) {
+      const id = crypto.randomUUID();
+      await write(id, data, expires);
+      return id;
+    },
+    readData: (id) => store.get(sessionKey(id), 'json'),
+    updateData: (id, data, expires) => write(id, data, expires),
+    deleteData: (id) => store.delete(sessionKey(id)),
+  });
+};
+
+export async function createUserSession(
+  request: Request,
+  env: Env,
+  user: SessionUser,
+  redirectTo: string,
+) {
+  const storage = getSessionStorage(env);
+  // Never reuse an ID from before the login (session fixation)
+  const previous = await storage.getSession(request.headers.get('Cookie'));
+  if (previous.id) await storage.destroySession(previous);
+  const session = await storage.getSession();
+  session.set('userId', user.id);
   return redirect(redirectTo, {
     headers: {
-      'Set-Cookie': await sessionCookie.serialize('valid_session'),
+      'Set-Cookie': await storage.commitSession(session),
     },
   });
 }
 
-export async function requireUserSession(request: Request) {
-  const cookieHeader = request.headers.get('Cookie');
-  const session = await sessionCookie.parse(cookieHeader);
+// Returns the logged in user, or null when the request has no valid session.
+export async function getUserSession(
+  request: Request,
+  env: Env,
+): Promise<SessionUser | null> {
+  const session = await getSessionStorage(env).getSession(
+    request.headers.get('Cookie'),
+  );
+  const userId = session.get('userId');
+  return userId ? getUser(env, userId) : null;
+}
 
-  if (!session) {
+export async function requireUserSession(request: Request, env: Env) {
+  const user = await getUserSession(request, env);
+
+  if (!user) {
     throw redirect('/login');
   }
 
-  return session;
+  return user;
+}
+
+export async function requireAdmin(request: Request, env: Env) {
+  const user = await requireUserSession(request, env);
+
+  if (user.role !== 'admin') {
+    throw new Response('Forbidden', { status: 403 });
+  }
+
+  return user;
 }
 
-export async function logout() {
+export async function logout(request: Request, env: Env) {
+  const storage = getSessionStorage(env);
+  const session = await storage.getSession(request.headers.get('Cookie'));
   return redirect('/login', {
     headers: {
-      'Set-Cookie': await sessionCookie.serialize('', {
-        maxAge: 0,
-      }),
+      'Set-Cookie': await storage.destroySession(session),
     },
   });
 }
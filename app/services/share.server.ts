@@ -0,0 +1,89 @@
+import type { MultiFormatResult } from './mediainfo';
+
+export interface SharedReport {
+  id: string;
+  // File name or URL of the analyzed media
+  name: string;
+  owner: string;
+  // Anyone with the link can view it, without logging in
+  isPublic: boolean;
+  // Epoch milliseconds
+  createdAt: number;
+  expiresAt: number | null;
+  analysis: MultiFormatResult;
+}
+
+export interface ShareOptions {
+  name: string;
+  isPublic: boolean;
+  // Seconds, or null to keep the link until it is revoked
+  expiresIn: number | null;
+  analysis: MultiFormatResult;
+}
+
+// KV won't expire keys sooner than this
+export const MIN_EXPIRY_SECONDS = 60;
+// Longer than any option the share dialog offers; "never" is null
+export const MAX_EXPIRY_SECONDS = 60 * 60 * 24 * 365;
+
+const shareKey = (id: string) => `share:${id}`;
+
+// 128 random bits, base64url encoded
+const createShareId = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+export async function createShare(
+  store: KVNamespace,
+  owner: string,
+  { name, isPublic, expiresIn, analysis }: ShareOptions,
+): Promise<SharedReport> {
+  const ttl =
+    expiresIn === null ? null : Math.max(expiresIn, MIN_EXPIRY_SECONDS);
+  const now = Date.now();
+  const share: SharedReport = {
+    id: createShareId(),
+    name,
+    owner,
+    isPublic,
+    createdAt: now,
+    expiresAt: ttl === null ? null : now + ttl * 1000,
+    analysis,
+  };
+
+  await store.put(
+    shareKey(share.id),
+    JSON.stringify(share),
+    ttl === null ? undefined : { expirationTtl: ttl },
+  );
+  return share;
+}
+
+// Null when the link never existed, was revoked or has expired
+export async function getShare(
+  store: KVNamespace,
+  id: string,
+): Promise<SharedReport | null> {
+  const share = await store.get<SharedReport>(shareKey(id), 'json');
+  // KV expiry is eventually consistent, so check the timestamp as well
+  if (!share || (share.expiresAt !== null && share.expiresAt < Date.now())) {
+    return null;
+  }
+  return share;
+}
+
+// Returns false when there was nothing the owner could revoke
+export async function revokeShare(
+  store: KVNamespace,
+  owner: string,
+  id: string,
+): Promise<boolean> {
+  const share = await getShare(store, id);
+  if (!share || share.owner !== owner) return false;
+  await store.delete(shareKey(id));
+  return true;
+}
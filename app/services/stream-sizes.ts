@@ -0,0 +1,106 @@
+import type { MediaInfoResult, Track } from 'mediainfo.js';
+
+import { getTracks, trackTitle } from './media-summary';
+
+export interface StreamShare {
+  // e.g. "Audio #2"
+  track: string;
+  type: Track['@type'];
+  // Format and language, e.g. "E-AC-3 · de"
+  details: string;
+  // Bytes
+  size: number | null;
+  // Bits per second
+  bitrate: number | null;
+  // Size worked out from bitrate × duration, MediaInfo gave none
+  estimated: boolean;
+}
+
+export interface StreamBreakdown {
+  // Bytes
+  fileSize: number | null;
+  // Seconds
+  duration: number | null;
+  overallBitrate: number | null;
+  streams: StreamShare[];
+  // Container headers, indexes and padding: what no stream accounts for
+  overhead: number | null;
+}
+
+const CHARTED_TYPES = ['Video', 'Audio', 'Text', 'Image', 'Other'] as const;
+
+const numeric = (value: unknown) => {
+  const number = typeof value === 'number' ? value : Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(number)
+    ? number
+    : null;
+};
+
+const readNumber = (track: Track, field: string) =>
+  numeric((track as unknown as Record<string, unknown>)[field]);
+
+const streamShare = (
+  track: Track,
+  index: number,
+  count: number,
+  fallbackDuration: number | null,
+): StreamShare => {
+  const bitrate =
+    readNumber(track, 'BitRate') ?? readNumber(track, 'BitRate_Nominal');
+  const duration = readNumber(track, 'Duration') ?? fallbackDuration;
+  const streamSize = readNumber(track, 'StreamSize');
+  const estimate =
+    streamSize === null && bitrate !== null && duration !== null
+      ? Math.round((bitrate * duration) / 8)
+      : null;
+
+  const record = track as unknown as Record<string, unknown>;
+  return {
+    track: trackTitle(track, index, count),
+    type: track['@type'],
+    details: [record.Format, record.Language]
+      .filter((value) => typeof value === 'string' && value)
+      .join(' · '),
+    size: streamSize ?? estimate,
+    // Subtitles rarely carry a bitrate, their size over time is close enough
+    bitrate:
+      bitrate ??
+      (streamSize !== null && duration ? (streamSize * 8) / duration : null),
+    estimated: estimate !== null,
+  };
+};
+
+// Per-track sizes and bitrates from the object output
+export function getStreamBreakdown(result: MediaInfoResult): StreamBreakdown {
+  const [general] = getTracks(result, 'General');
+  const fileSize = general ? readNumber(general, 'FileSize') : null;
+  const duration = general ? readNumber(general, 'Duration') : null;
+
+  const streams = CHARTED_TYPES.flatMap((type) => {
+    const tracks = getTracks(result, type);
+    return tracks.map((track, index) =>
+      streamShare(track, index, tracks.length, duration),
+    );
+  });
+
+  // Computed when every stream has a size, otherwise MediaInfo's own figure
+  const known = streams.every((stream) => stream.size !== null);
+  const streamTotal = streams.reduce(
+    (sum, stream) => sum + (stream.size ?? 0),
+    0,
+  );
+  const overhead =
+    fileSize !== null && known && streams.length > 0
+      ? Math.max(0, fileSize - streamTotal)
+      : general
+        ? readNumber(general, 'StreamSize')
+        : null;
+
+  return {
+    fileSize,
+    duration,
+    overallBitrate: general ? readNumber(general, 'OverallBitRate') : null,
+    streams,
+    overhead,
+  };
+}
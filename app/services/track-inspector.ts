@@ -0,0 +1,271 @@
+import type { MediaInfoResult, Track } from 'mediainfo.js';
+
+import { getTracks, trackTitle } from './media-summary';
+
+export interface Chapter {
+  // Seconds from the start
+  start: number;
+  // Next chapter's start, or the file's duration for the last one
+  end: number | null;
+  title: string;
+  language: string | null;
+}
+
+export interface StreamFlags {
+  // e.g. "Audio #2"
+  track: string;
+  type: 'Audio' | 'Text';
+  format: string | null;
+  language: string | null;
+  title: string | null;
+  // null when the container doesn't carry the flag
+  isDefault: boolean | null;
+  forced: boolean;
+  hearingImpaired: boolean;
+  audioDescription: boolean;
+}
+
+export type AttachmentKind = 'font' | 'image' | 'other';
+
+export interface Attachment {
+  name: string;
+  kind: AttachmentKind;
+}
+
+export interface InspectorIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface TrackInspection {
+  // Seconds
+  duration: number | null;
+  chapters: Chapter[];
+  streams: StreamFlags[];
+  attachments: Attachment[];
+  issues: InspectorIssue[];
+}
+
+const readField = (track: Track, field: string): unknown => {
+  const record = track as unknown as Record<string, unknown>;
+  return record[field] ?? track.extra?.[field];
+};
+
+const readString = (track: Track, field: string) => {
+  const value = readField(track, field);
+  return value === undefined || value === null || value === ''
+    ? null
+    : String(value);
+};
+
+const isYes = (value: string | null) => value?.toLowerCase() === 'yes';
+
+// MediaInfo keys chapters by timestamp: "_00_05_12_345": "en:Opening"
+const CHAPTER_KEY = /^_(\d{2})_(\d{2})_(\d{2})_(\d{3})$/;
+const CHAPTER_LANGUAGE = /^([a-z]{2,3}(?:-[A-Za-z0-9]+)?):(.*)$/;
+
+const parseChapters = (result: MediaInfoResult, duration: number | null) => {
+  // Later menus are alternate editions; the first one is what plays
+  const menu = getTracks(result, 'Menu').find((track) =>
+    Object.keys(track.extra ?? {}).some((key) => CHAPTER_KEY.test(key)),
+  );
+  if (!menu?.extra) return [];
+
+  const chapters = Object.entries(menu.extra).flatMap(([key, value]) => {
+    const match = CHAPTER_KEY.exec(key);
+    if (!match) return [];
+    const [, h, m, s, ms] = match.map(Number);
+    const text = String(value);
+    const language = CHAPTER_LANGUAGE.exec(text);
+    return [
+      {
+        start: h * 3600 + m * 60 + s + ms / 1000,
+        end: null as number | null,
+        title: (language ? language[2] : text).trim(),
+        language: language?.[1] ?? null,
+      },
+    ];
+  });
+
+  chapters.sort((a, b) => a.start - b.start);
+  chapters.forEach((chapter, index) => {
+    chapter.end = chapters[index + 1]?.start ?? duration;
+  });
+  return chapters;
+};
+
+const streamFlags = (
+  track: Track,
+  index: number,
+  count: number,
+): StreamFlags => {
+  const title = readString(track, 'Title');
+  const serviceKind = readString(track, 'ServiceKind');
+  const isDefault = readString(track, 'Default');
+  return {
+    track: trackTitle(track, index, count),
+    type: track['@type'] as StreamFlags['type'],
+    format: readString(track, 'Format'),
+    language: readString(track, 'Language'),
+    title,
+    isDefault: isDefault === null ? null : isYes(isDefault),
+    forced: isYes(readString(track, 'Forced')),
+    // Matroska flags, MPEG service kinds, or the usual title conventions
+    hearingImpaired:
+      isYes(readString(track, 'HearingImpaired')) ||
+      serviceKind === 'HI' ||
+      /\b(SDH|CC)\b/.test(title ?? ''),
+    audioDescription:
+      isYes(readString(track, 'VisualImpaired')) ||
+      serviceKind === 'VI' ||
+      /\baudio description\b/i.test(title ?? ''),
+  };
+};
+
+const FONT_EXTENSIONS = ['ttf', 'otf', 'ttc', 'woff', 'woff2'];
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp'];
+
+// Matroska attachments come as one " / " separated list of file names
+const parseAttachments = (result: MediaInfoResult): Attachment[] => {
+  const [general] = getTracks(result, 'General');
+  const list = general ? readString(general, 'Attachments') : null;
+  if (!list) return [];
+  return list
+    .split(' / ')
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => {
+      const extension = name.split('.').pop()?.toLowerCase() ?? '';
+      return {
+        name,
+        kind: FONT_EXTENSIONS.includes(extension)
+          ? 'font'
+          : IMAGE_EXTENSIONS.includes(extension)
+            ? 'image'
+            : 'other',
+      };
+    });
+};
+
+const UNDETERMINED = ['und', 'zxx', 'mul'];
+const hasLanguage = (stream: StreamFlags) =>
+  !!stream.language && !UNDETERMINED.includes(stream.language.toLowerCase());
+
+// Problems a player or a delivery spec would trip over
+const checkStreams = (
+  streams: StreamFlags[],
+  chapters: Chapter[],
+  duration: number | null,
+): InspectorIssue[] => {
+  const issues: InspectorIssue[] = [];
+  const audio = streams.filter((stream) => stream.type === 'Audio');
+  const text = streams.filter((stream) => stream.type === 'Text');
+
+  // Only meaningful when the container carries Default flags at all
+  if (audio.length > 0 && audio.some((stream) => stream.isDefault !== null)) {
+    const defaults = audio.filter((stream) => stream.isDefault);
+    if (defaults.length === 0) {
+      issues.push({
+        severity: 'error',
+        message: 'No audio track is flagged default',
+      });
+    } else if (defaults.length > 1) {
+      issues.push({
+        severity: 'warning',
+        message: `${defaults.length} audio tracks are flagged default: ${defaults
+          .map((stream) => stream.track)
+          .join(', ')}`,
+      });
+    }
+  }
+
+  const defaultSubtitles = text.filter((stream) => stream.isDefault);
+  if (defaultSubtitles.length > 1) {
+    issues.push({
+      severity: 'warning',
+      message: `${defaultSubtitles.length} subtitle tracks are flagged default`,
+    });
+  }
+
+  for (const stream of text) {
+    if (stream.forced && !hasLanguage(stream)) {
+      issues.push({
+        severity: 'error',
+        message: `${stream.track} is forced but has no language`,
+      });
+    }
+  }
+  for (const stream of audio) {
+    if (!hasLanguage(stream)) {
+      issues.push({
+        severity: 'warning',
+        message: `${stream.track} has no language`,
+      });
+    }
+  }
+
+  // Same language and flags with nothing to tell them apart in a menu
+  for (const group of [audio, text]) {
+    const seen = new Map<string, StreamFlags>();
+    for (const stream of group) {
+      if (!hasLanguage(stream)) continue;
+      const key = [
+        stream.language!.toLowerCase(),
+        stream.forced,
+        stream.hearingImpaired,
+        stream.audioDescription,
+        stream.title ?? '',
+      ].join('|');
+      const first = seen.get(key);
+      if (first) {
+        issues.push({
+          severity: 'warning',
+          message: `${stream.track} duplicates ${first.track} (language "${stream.language}")`,
+        });
+      } else {
+        seen.set(key, stream);
+      }
+    }
+  }
+
+  if (duration !== null) {
+    for (const chapter of chapters) {
+      if (chapter.start > duration) {
+        issues.push({
+          severity: 'warning',
+          message: `Chapter "${chapter.title}" starts after the end of the file`,
+        });
+      }
+    }
+  }
+  if (chapters.length > 0 && chapters[0].start > 0) {
+    issues.push({
+      severity: 'warning',
+      message: 'The first chapter does not start at 00:00:00',
+    });
+  }
+
+  return issues;
+};
+
+// Chapters, stream flags and attachments from the object output
+export function inspectTracks(result: MediaInfoResult): TrackInspection {
+  const [general] = getTracks(result, 'General');
+  const duration = general?.Duration ?? null;
+
+  const streams = (['Audio', 'Text'] as const).flatMap((type) => {
+    const tracks = getTracks(result, type);
+    return tracks.map((track, index) =>
+      streamFlags(track, index, tracks.length),
+    );
+  });
+  const chapters = parseChapters(result, duration);
+
+  return {
+    duration,
+    chapters,
+    streams,
+    attachments: parseAttachments(result),
+    issues: checkStreams(streams, chapters, duration),
+  };
+}
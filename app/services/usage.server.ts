@@ -0,0 +1,34 @@
+// Proxy usage accounting. The counters live in the UsageCounter Durable
+// Object (workers/usage.ts), one instance per user and per upstream host.
+
+export interface UsageAmount {
+  requests: number;
+  bytes: number;
+}
+
+export interface UsageLimits {
+  perMinute: UsageAmount;
+  perDay: UsageAmount;
+}
+
+export interface UsageSnapshot {
+  minute: UsageAmount;
+  day: UsageAmount;
+  // Today's usage by upstream host (only tracked for users)
+  hosts: Record<string, UsageAmount>;
+}
+
+export const userUsageKey = (userId: string) => `user:${userId}`;
+export const hostUsageKey = (hostname: string) => `host:${hostname}`;
+
+export const getUsageCounter = (env: Env, key: string) =>
+  env.USAGE ? env.USAGE.get(env.USAGE.idFromName(key)) : null;
+
+// Null when usage isn't tracked in this deployment
+export async function getUserUsage(
+  env: Env,
+  userId: string,
+): Promise<UsageSnapshot | null> {
+  const counter = getUsageCounter(env, userUsageKey(userId));
+  return counter ? counter.snapshot() : null;
+}
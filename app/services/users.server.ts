@@ -0,0 +1,160 @@
+import { hashPassword, verifyPassword } from './password.server';
+
+export type UserRole = 'admin' | 'user';
+
+export interface User {
+  id: string;
+  username: string;
+  role: UserRole;
+  passwordHash: string;
+  // Epoch milliseconds
+  createdAt: number;
+}
+
+// What the rest of the app gets to see of a user
+export type SessionUser = Omit<User, 'passwordHash'>;
+
+export const toSessionUser = ({
+  passwordHash: _passwordHash,
+  ...user
+}: User): SessionUser => user;
+
+// Users live in the AUTH namespace next to the sessions:
+//   user:<id>              the User record
+//   username:<lowercased>  the user's id, for login lookups
+const userKey = (id: string) => `user:${id}`;
+const usernameKey = (username: string) =>
+  `username:${username.trim().toLowerCase()}`;
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{3,32}$/;
+const MIN_PASSWORD_LENGTH = 8;
+
+export const getAuthStore = (env: Env) => {
+  if (!env.AUTH) {
+    throw new Error('The AUTH KV namespace is not configured');
+  }
+  return env.AUTH;
+};
+
+export async function getUser(
+  env: Env,
+  id: string,
+): Promise<SessionUser | null> {
+  const user = await getAuthStore(env).get<User>(userKey(id), 'json');
+  return user ? toSessionUser(user) : null;
+}
+
+export async function listUsers(env: Env): Promise<SessionUser[]> {
+  const store = getAuthStore(env);
+  const { keys } = await store.list({ prefix: 'user:' });
+  const users = await Promise.all(
+    keys.map(({ name }) => store.get<User>(name, 'json')),
+  );
+  return users
+    .filter((user): user is User => user !== null)
+    .map(toSessionUser)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+// No username or password rules, see ensureBootstrapAdmin
+const storeUser = async (
+  env: Env,
+  {
+    username,
+    password,
+    role,
+  }: { username: string; password: string; role: UserRole },
+): Promise<SessionUser> => {
+  const store = getAuthStore(env);
+  if (await store.get(usernameKey(username))) {
+    throw new Error(`User "${username}" already exists`);
+  }
+
+  const user: User = {
+    id: crypto.randomUUID(),
+    username: username.trim(),
+    role,
+    passwordHash: await hashPassword(password),
+    createdAt: Date.now(),
+  };
+  await store.put(userKey(user.id), JSON.stringify(user));
+  await store.put(usernameKey(user.username), user.id);
+  return toSessionUser(user);
+};
+
+export async function createUser(
+  env: Env,
+  {
+    username,
+    password,
+    role,
+  }: { username: string; password: string; role: UserRole },
+): Promise<SessionUser> {
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new Error(
+      'Usernames are 3-32 characters: letters, digits, dots, dashes and underscores',
+    );
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(
+      `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+  }
+  return storeUser(env, { username, password, role });
+}
+
+export async function deleteUser(env: Env, id: string) {
+  const store = getAuthStore(env);
+  const user = await store.get<User>(userKey(id), 'json');
+  if (!user) return;
+  await store.delete(usernameKey(user.username));
+  await store.delete(userKey(id));
+}
+
+// The first admin comes from AUTH_USER/AUTH_PASS, created on the first login
+// attempt while there are no users yet. After that the variables are ignored.
+// The password rules are skipped: existing deployments may have a shared
+// password that predates them, and rejecting it would lock everyone out.
+let bootstrapped: Promise<void> | null = null;
+
+const bootstrapAdmin = async (env: Env) => {
+  if (!env.AUTH_USER || !env.AUTH_PASS) return;
+  const { keys } = await getAuthStore(env).list({ prefix: 'user:', limit: 1 });
+  if (keys.length > 0) return;
+  await storeUser(env, {
+    username: env.AUTH_USER,
+    password: env.AUTH_PASS,
+    role: 'admin',
+  });
+};
+
+// Once per isolate; a failure is logged and retried on the next login
+const ensureBootstrapAdmin = async (env: Env) => {
+  bootstrapped ??= bootstrapAdmin(env).catch((error) => {
+    bootstrapped = null;
+    console.error('Creating the bootstrap admin failed:', error);
+  });
+  await bootstrapped;
+};
+
+// Null for an unknown user or a wrong password, without saying which
+export async function verifyCredentials(
+  env: Env,
+  username: string,
+  password: string,
+): Promise<SessionUser | null> {
+  await ensureBootstrapAdmin(env);
+
+  const store = getAuthStore(env);
+  const id = await store.get(usernameKey(username));
+  const user = id ? await store.get<User>(userKey(id), 'json') : null;
+  if (!user) {
+    // Take as long as a real check so timing doesn't reveal usernames
+    await hashPassword(password);
+    return null;
+  }
+  if (!(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+  return toSessionUser(user);
+}
@@ -0,0 +1,172 @@
+import { openAsBlob } from 'node:fs';
+import { basename } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import {
+  openFileSource,
+  openUrlSource,
+  type UpstreamFetch,
+} from '../app/services/byte-source';
+import { getManifestKind } from '../app/services/manifest';
+import {
+  analyzeManifest,
+  renderManifestText,
+} from '../app/services/manifest-analysis';
+import { analyzeSourceFormats } from '../app/services/mediainfo';
+import {
+  evaluatePolicy,
+  type QcPolicy,
+  type QcReport,
+} from '../app/services/qc-policy';
+
+export interface PolicyOption {
+  policy: QcPolicy;
+  // Preset id: the server evaluates its own copy
+  preset: string | null;
+  // The policy file as written, posted to the server otherwise
+  source: string | null;
+}
+
+export interface AnalysisRequest {
+  // A local path or an http(s) URL
+  input: string;
+  format: string;
+  full: boolean;
+  cover: boolean;
+  policy: PolicyOption | null;
+  signal?: AbortSignal;
+  onStatus: (status: string) => void;
+}
+
+export interface AnalysisOutcome {
+  report: string;
+  qc: QcReport | null;
+  // Per-rendition problems found in an HLS/DASH manifest
+  manifestIssues: number;
+}
+
+export interface RemoteServer {
+  url: string;
+  // "user:password", sent as Basic auth
+  credentials: string | null;
+}
+
+export const isUrl = (input: string) => /^https?:\/\//i.test(input);
+
+// The bundle lives in dist/cli/, the WASM MediaInfo ships with the app
+const WASM_PATH = fileURLToPath(
+  new URL('../../public/MediaInfoModule.wasm', import.meta.url),
+);
+
+const fetchDirect: UpstreamFetch = (url, init) => {
+  const headers = new Headers(init.headers);
+  headers.set('User-Agent', 'MediaPeek/1.0 (CLI)');
+  return fetch(url, { ...init, headers });
+};
+
+// Same pipeline as the analyze API, run in this process
+export async function analyzeLocally(
+  request: AnalysisRequest,
+): Promise<AnalysisOutcome> {
+  const { input, format, full, cover, policy, signal, onStatus } = request;
+  const locateFile = () => WASM_PATH;
+
+  const manifestKind = isUrl(input) ? getManifestKind(input) : null;
+  if (manifestKind) {
+    if (policy || !['text', 'JSON'].includes(format)) {
+      throw new Error(
+        'Manifests are reported as text or JSON, without a QC policy',
+      );
+    }
+    const report = await analyzeManifest(input, onStatus, {
+      fetchUpstream: fetchDirect,
+      signal,
+      analyze: async (source) =>
+        (
+          await analyzeSourceFormats(source, [], onStatus, {
+            locateFile,
+            signal,
+            full,
+          })
+        ).object,
+    });
+    return {
+      report:
+        format === 'JSON'
+          ? JSON.stringify(report, null, 2)
+          : renderManifestText(report),
+      qc: null,
+      manifestIssues: report.issues.length,
+    };
+  }
+
+  const source = isUrl(input)
+    ? await openUrlSource(input, onStatus, fetchDirect, { signal })
+    : await openFileSource(
+        new File([await openAsBlob(input)], basename(input)),
+        onStatus,
+      );
+  const { object, reports } = await analyzeSourceFormats(
+    source,
+    [format],
+    onStatus,
+    { locateFile, signal, full, coverData: cover },
+  );
+
+  return {
+    report: reports[format],
+    qc: policy ? evaluatePolicy(object, policy.policy) : null,
+    manifestIssues: 0,
+  };
+}
+
+// The deployment fetches the media itself, so only URLs can go there
+export async function analyzeRemotely(
+  request: AnalysisRequest,
+  server: RemoteServer,
+): Promise<AnalysisOutcome> {
+  const { input, format, full, cover, policy, signal } = request;
+  if (!isUrl(input)) {
+    throw new Error('Only http(s) URLs can be analyzed on a server');
+  }
+
+  const endpoint = new URL('/api/analyze', server.url);
+  endpoint.searchParams.set('url', input);
+  endpoint.searchParams.set('format', format);
+  if (full) endpoint.searchParams.set('full', '1');
+  if (cover) endpoint.searchParams.set('cover', '1');
+  if (policy?.preset) endpoint.searchParams.set('policy', policy.preset);
+
+  const headers = new Headers();
+  if (server.credentials) {
+    headers.set(
+      'Authorization',
+      `Basic ${Buffer.from(server.credentials).toString('base64')}`,
+    );
+  }
+
+  request.onStatus(`Requesting ${endpoint.origin}...`);
+  const response = await fetch(endpoint, {
+    method: policy?.source ? 'POST' : 'GET',
+    headers,
+    body: policy?.source,
+    signal,
+  });
+  const body = await response.text();
+  if (!response.ok) {
+    throw new Error(`${response.status} ${body || response.statusText}`);
+  }
+
+  const manifestIssues = Number(
+    response.headers.get('X-MediaPeek-Manifest-Issues') ?? 0,
+  );
+  if (!policy) {
+    return { report: body, qc: null, manifestIssues };
+  }
+  // With a policy the server wraps the report next to the QC results
+  const { report, qc } = JSON.parse(body) as {
+    report: string;
+    qc: QcReport;
+  };
+  return { report, qc, manifestIssues };
+}
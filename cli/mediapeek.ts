@@ -0,0 +1,289 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { isAbsolute, join } from 'node:path';
+import { parseArgs } from 'node:util';
+
+import { glob, isDynamicPattern } from 'tinyglobby';
+
+import { BATCH_CONCURRENCY, runWithConcurrency } from '../app/services/batch';
+import { mediaBaseName } from '../app/services/download';
+import {
+  parsePolicy,
+  QC_PRESETS,
+  type QcReport,
+} from '../app/services/qc-policy';
+import {
+  REPORT_FILE_TYPES,
+  reportFileType,
+} from '../app/services/report-files';
+import {
+  type AnalysisOutcome,
+  analyzeLocally,
+  analyzeRemotely,
+  isUrl,
+  type PolicyOption,
+  type RemoteServer,
+} from './analyze';
+
+// Exit codes: a failed analysis or QC run, or a bad command line
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: mediapeek [options] <path | url | glob>...
+
+Analyzes media files and URLs with MediaInfo, locally or on a MediaPeek server.
+
+Options:
+  -f, --format <format>      ${Object.keys(REPORT_FILE_TYPES).join(', ')}
+                             (default: text)
+  -s, --server <url>         Analyze on a MediaPeek deployment instead of
+                             locally (URLs only). Also MEDIAPEEK_SERVER;
+                             credentials from MEDIAPEEK_USER and
+                             MEDIAPEEK_PASSWORD
+  -p, --policy <id | file>   QC policy: a preset (${Object.keys(QC_PRESETS).join(', ')})
+                             or a JSON/YAML policy file
+  -j, --concurrency <n>      Inputs analyzed at the same time (default: ${BATCH_CONCURRENCY})
+  -o, --output-dir <dir>     Write one report file per input instead of
+                             printing to stdout; clashing names get a
+                             counter (x.txt, x-2.txt)
+      --full                 Every field MediaInfo knows about
+      --cover                Embedded artwork as base64
+      --strict               Fail on QC warnings and manifest issues too
+  -v, --verbose              Progress on stderr
+  -h, --help                 Show this help
+
+Exits with 1 when an analysis or a QC policy fails, 2 on usage errors.`;
+
+// MediaInfo's WASM uses stringref, which older Node versions can't load
+const MIN_NODE_MAJOR = 22;
+
+class UsageError extends Error {}
+
+// Unknown options and unreadable policies are the caller's mistake
+const tryParse = <T>(parse: () => T): T => {
+  try {
+    return parse();
+  } catch (error) {
+    throw new UsageError(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+};
+
+const parseCommandLine = () => {
+  const { values, positionals } = tryParse(() =>
+    parseArgs({
+      allowPositionals: true,
+      options: {
+        format: { type: 'string', short: 'f', default: 'text' },
+        server: { type: 'string', short: 's' },
+        policy: { type: 'string', short: 'p' },
+        concurrency: {
+          type: 'string',
+          short: 'j',
+          default: String(BATCH_CONCURRENCY),
+        },
+        'output-dir': { type: 'string', short: 'o' },
+        full: { type: 'boolean', default: false },
+        cover: { type: 'boolean', default: false },
+        strict: { type: 'boolean', default: false },
+        verbose: { type: 'boolean', short: 'v', default: false },
+        help: { type: 'boolean', short: 'h', default: false },
+      },
+    }),
+  );
+
+  if (!values.help && positionals.length === 0) {
+    throw new UsageError('No inputs given');
+  }
+  if (!REPORT_FILE_TYPES[values.format]) {
+    throw new UsageError(
+      `Unsupported format "${values.format}". Expected one of: ${Object.keys(
+        REPORT_FILE_TYPES,
+      ).join(', ')}`,
+    );
+  }
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError('--concurrency must be a positive integer');
+  }
+
+  return { ...values, concurrency, inputs: positionals };
+};
+
+const loadPolicy = async (value: string): Promise<PolicyOption> => {
+  if (QC_PRESETS[value]) {
+    return { policy: QC_PRESETS[value], preset: value, source: null };
+  }
+  const source = await readFile(value, 'utf8').catch(() => {
+    throw new UsageError(
+      `"${value}" is neither a policy preset nor a readable file`,
+    );
+  });
+  return {
+    policy: tryParse(() => parsePolicy(source)),
+    preset: null,
+    source,
+  };
+};
+
+const serverFromEnv = (url: string | undefined): RemoteServer | null => {
+  const serverUrl = url ?? process.env.MEDIAPEEK_SERVER;
+  if (!serverUrl) return null;
+  const { MEDIAPEEK_USER: user, MEDIAPEEK_PASSWORD: password } = process.env;
+  return {
+    url: serverUrl,
+    credentials: user ? `${user}:${password ?? ''}` : null,
+  };
+};
+
+// URLs pass through; patterns are expanded here so they work unquoted on
+// shells that don't glob, and quoted everywhere
+const expandInputs = async (inputs: string[]) => {
+  const expanded: string[] = [];
+  for (const input of inputs) {
+    if (isUrl(input) || !isDynamicPattern(input)) {
+      expanded.push(input);
+      continue;
+    }
+    const matches = await glob(input, {
+      onlyFiles: true,
+      absolute: isAbsolute(input),
+    });
+    if (matches.length === 0) {
+      throw new UsageError(`No files match "${input}"`);
+    }
+    expanded.push(...matches.sort());
+  }
+  return Array.from(new Set(expanded));
+};
+
+// a/x.mkv and b/x.mkv, or two URLs ending in index.m3u8, would write the same
+// file; later ones get a counter: x.txt, x-2.txt. Case-insensitive, as
+// macOS and Windows file systems are.
+const outputFilenames = (inputs: string[], format: string) => {
+  const { fileSuffix } = reportFileType(format);
+  const taken = new Set<string>();
+  return inputs.map((input) => {
+    const base = mediaBaseName(input);
+    let name = `${base}${fileSuffix}`;
+    for (let n = 2; taken.has(name.toLowerCase()); n++) {
+      name = `${base}-${n}${fileSuffix}`;
+    }
+    taken.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const qcSummary = (input: string, qc: QcReport) =>
+  [
+    `QC ${qc.status.toUpperCase()} (${qc.policy}): ${input}`,
+    ...qc.results
+      .filter((result) => result.status !== 'pass')
+      .map(
+        (result) => `  [${result.status}] ${result.label}: ${result.message}`,
+      ),
+  ].join('\n');
+
+const isFailure = (outcome: AnalysisOutcome, strict: boolean) =>
+  outcome.qc?.status === 'fail' ||
+  (strict && (outcome.qc?.status === 'warn' || outcome.manifestIssues > 0));
+
+async function main(): Promise<number> {
+  const nodeMajor = Number(process.versions.node.split('.')[0]);
+  if (nodeMajor < MIN_NODE_MAJOR) {
+    throw new Error(
+      `mediapeek needs Node.js ${MIN_NODE_MAJOR} or later, this is ${process.version}`,
+    );
+  }
+
+  const options = parseCommandLine();
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const policy = options.policy ? await loadPolicy(options.policy) : null;
+  const server = serverFromEnv(options.server);
+  const inputs = await expandInputs(options.inputs);
+  const outputDir = options['output-dir'];
+  if (outputDir) await mkdir(outputDir, { recursive: true });
+  const filenames = outputFilenames(inputs, options.format);
+
+  // Ctrl+C stops every analysis at its next read
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort(new Error('Interrupted')));
+
+  // Reports go out in input order, whichever finishes first
+  // null marks a failed input, already reported on stderr
+  const outcomes: (AnalysisOutcome | null | undefined)[] = [];
+  let printed = 0;
+  const flush = () => {
+    while (printed < inputs.length && outcomes[printed] !== undefined) {
+      const outcome = outcomes[printed];
+      const input = inputs[printed++];
+      if (!outcome || outputDir) continue;
+      if (inputs.length > 1) process.stdout.write(`==> ${input} <==\n`);
+      process.stdout.write(outcome.report.replace(/\n?$/, '\n'));
+    }
+  };
+
+  let failed = false;
+  const results = await runWithConcurrency(
+    inputs,
+    options.concurrency,
+    async (input, index) => {
+      const request = {
+        input,
+        format: options.format,
+        full: options.full,
+        cover: options.cover,
+        policy,
+        signal: controller.signal,
+        onStatus: (status: string) => {
+          if (options.verbose) console.error(`[${input}] ${status}`);
+        },
+      };
+      try {
+        const outcome = server
+          ? await analyzeRemotely(request, server)
+          : await analyzeLocally(request);
+        if (outputDir) {
+          await writeFile(join(outputDir, filenames[index]), outcome.report);
+        }
+        if (outcome.qc) console.error(qcSummary(input, outcome.qc));
+        if (outcome.manifestIssues > 0) {
+          console.error(
+            `${outcome.manifestIssues} manifest issue(s): ${input}`,
+          );
+        }
+        failed ||= isFailure(outcome, options.strict);
+        outcomes[index] = outcome;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed: ${input}: ${message}`);
+        failed = true;
+        outcomes[index] = null;
+      }
+      flush();
+    },
+    controller.signal,
+  );
+  // Inputs still queued when Ctrl+C came were never started
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') outcomes[index] = null;
+  });
+  flush();
+
+  return failed || controller.signal.aborted ? EXIT_FAILED : 0;
+}
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    if (error instanceof UsageError) console.error(`\n${USAGE}`);
+    process.exitCode = error instanceof UsageError ? EXIT_USAGE : EXIT_FAILED;
+  },
+);
@@ -11,6 +11,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['mediainfo.js'],
   },
+  // The MediaInfo worker lazy-loads mediainfo.js, which needs code splitting
+  worker: {
+    format: 'es',
+  },
   plugins: [
     cloudflare({ viteEnvironment: { name: 'ssr' } }),
     tailwindcss(),
@@ -0,0 +1,233 @@
+import { openUrlSource, type UpstreamFetch } from '../app/services/byte-source';
+import { getManifestKind } from '../app/services/manifest';
+import {
+  analyzeManifest,
+  renderManifestText,
+} from '../app/services/manifest-analysis';
+import { analyzeSourceFormats } from '../app/services/mediainfo';
+import {
+  evaluatePolicy,
+  parsePolicy,
+  QC_PRESETS,
+  type QcPolicy,
+} from '../app/services/qc-policy';
+import { REPORT_FILE_TYPES } from '../app/services/report-files';
+import mediaInfoWasm from '../public/MediaInfoModule.wasm';
+import { authenticate, unauthorized } from './auth';
+import { guardedFetch } from './upstream-guard';
+import { meteredFetch } from './usage';
+
+// Content types for the formats offered by FormatMenu
+const FORMAT_CONTENT_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(REPORT_FILE_TYPES).map(([format, { mimeType }]) => [
+    format,
+    `${mimeType}; charset=utf-8`,
+  ]),
+);
+
+// Workers can't compile WASM from bytes at runtime, so the Emscripten loader
+// inside mediainfo.js would fail. We hand it the module that was compiled at
+// deploy time instead, whatever it tries to fetch.
+const instantiatePrecompiled = async (
+  source: unknown,
+  imports?: WebAssembly.Imports,
+) => {
+  // Drop the (pointless) fetch of the .wasm that Emscripten started
+  Promise.resolve(source)
+    .then((res) => (res instanceof Response ? res.body?.cancel() : undefined))
+    .catch(() => {});
+  const instance = await WebAssembly.instantiate(mediaInfoWasm, imports);
+  return { instance, module: mediaInfoWasm };
+};
+
+let wasmPatched = false;
+const patchWasmLoader = () => {
+  if (wasmPatched) return;
+  const instantiate = WebAssembly.instantiate.bind(WebAssembly);
+  Object.assign(WebAssembly, {
+    instantiateStreaming: instantiatePrecompiled,
+    instantiate: (source: unknown, imports?: WebAssembly.Imports) =>
+      source instanceof WebAssembly.Module
+        ? instantiate(source, imports)
+        : instantiatePrecompiled(source, imports),
+  });
+  wasmPatched = true;
+};
+
+// The isolate's 128 MB are shared by concurrent requests and hold each
+// analysis' block cache, replayed chunks and MediaInfo WASM heap, so one
+// analysis keeps far less than the browser defaults
+const WORKER_CACHE_BYTES = 8 * 1024 * 1024;
+const WORKER_REPLAY_BYTES = 4 * 1024 * 1024;
+
+// Same destination rules as the proxy
+const fetchDirect =
+  (env: Env): UpstreamFetch =>
+  (url, init) => {
+    const headers = new Headers(init.headers);
+    headers.set('User-Agent', 'MediaPeek/1.0 (Cloudflare Worker)');
+    return guardedFetch(url, { ...init, headers }, env);
+  };
+
+export async function handleAnalyzeRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  // POST carries a QC policy (JSON or YAML) in the body
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: { Allow: 'GET, POST' },
+    });
+  }
+
+  const user = await authenticate(request, env);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const url = new URL(request.url);
+  const targetUrl = url.searchParams.get('url');
+  const format = url.searchParams.get('format') ?? 'text';
+  // Same switches as the form: ?full=1 for every field, ?cover=1 for artwork
+  const flag = (name: string) =>
+    ['1', 'true', 'yes'].includes(url.searchParams.get(name) ?? '');
+
+  if (!targetUrl) {
+    return new Response("Missing 'url' query parameter", { status: 400 });
+  }
+
+  const contentType = FORMAT_CONTENT_TYPES[format];
+  if (!contentType) {
+    return new Response(
+      `Unsupported format "${format}". Expected one of: ${Object.keys(
+        FORMAT_CONTENT_TYPES,
+      ).join(', ')}`,
+      { status: 400 },
+    );
+  }
+
+  try {
+    const upstreamUrl = new URL(targetUrl);
+    if (!['http:', 'https:'].includes(upstreamUrl.protocol)) {
+      return new Response('Invalid protocol', { status: 400 });
+    }
+  } catch {
+    return new Response('Invalid URL', { status: 400 });
+  }
+
+  let policy: QcPolicy | null = null;
+  const presetId = url.searchParams.get('policy');
+  if (presetId) {
+    policy = QC_PRESETS[presetId] ?? null;
+    if (!policy) {
+      return new Response(
+        `Unknown policy "${presetId}". Expected one of: ${Object.keys(
+          QC_PRESETS,
+        ).join(', ')}`,
+        { status: 400 },
+      );
+    }
+  } else if (request.method === 'POST') {
+    try {
+      policy = parsePolicy(await request.text());
+    } catch (error) {
+      return new Response(
+        error instanceof Error ? error.message : 'Invalid QC policy',
+        { status: 400 },
+      );
+    }
+  }
+
+  // HLS/DASH get the per-rendition report instead of a MediaInfo one
+  const manifestKind = getManifestKind(targetUrl);
+  if (manifestKind && (policy || !['text', 'JSON'].includes(format))) {
+    return new Response(
+      'Manifests are reported as text or JSON, without a QC policy',
+      { status: 400 },
+    );
+  }
+
+  patchWasmLoader();
+
+  try {
+    // Stop fetching if the client goes away
+    const { signal } = request;
+    const locateFile = (path: string) =>
+      new URL(`/${path}`, request.url).toString();
+    // Every upstream fetch counts against the same quotas as the proxy
+    const fetchUpstream = meteredFetch(env, user.id, fetchDirect(env));
+
+    if (manifestKind) {
+      const report = await analyzeManifest(targetUrl, () => {}, {
+        fetchUpstream,
+        signal,
+        cacheBytes: WORKER_CACHE_BYTES,
+        analyze: async (source) =>
+          (
+            await analyzeSourceFormats(source, [], () => {}, {
+              locateFile,
+              signal,
+              full: flag('full'),
+            })
+          ).object,
+      });
+      return new Response(
+        format === 'JSON'
+          ? JSON.stringify(report, null, 2)
+          : renderManifestText(report),
+        {
+          headers: {
+            'Content-Type': contentType,
+            'Cache-Control': 'no-store',
+            'X-MediaPeek-Container': manifestKind,
+            'X-MediaPeek-Manifest-Issues': String(report.issues.length),
+          },
+        },
+      );
+    }
+
+    const source = await openUrlSource(targetUrl, () => {}, fetchUpstream, {
+      signal,
+      cacheBytes: WORKER_CACHE_BYTES,
+    });
+    const { object, reports } = await analyzeSourceFormats(
+      source,
+      [format],
+      () => {},
+      {
+        locateFile,
+        signal,
+        full: flag('full'),
+        coverData: flag('cover'),
+        replayBytes: WORKER_REPLAY_BYTES,
+      },
+    );
+
+    const headers = new Headers({
+      'Content-Type': contentType,
+      'Cache-Control': 'no-store',
+      'X-MediaPeek-Container': source.fileType.container,
+      'X-MediaPeek-Detected-By': source.fileType.method,
+    });
+
+    if (!policy) {
+      return new Response(reports[format], { headers });
+    }
+
+    // With a policy the report is wrapped next to the QC results
+    const qc = evaluatePolicy(object, policy);
+    headers.set('Content-Type', FORMAT_CONTENT_TYPES.JSON);
+    headers.set('X-MediaPeek-QC', qc.status);
+    return new Response(JSON.stringify({ report: reports[format], qc }), {
+      headers,
+    });
+  } catch (error) {
+    return new Response(
+      `Analysis failed: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      { status: 422 },
+    );
+  }
+}
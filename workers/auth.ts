@@ -0,0 +1,37 @@
+import { getUserSession } from '../app/services/session.server';
+import {
+  type SessionUser,
+  verifyCredentials,
+} from '../app/services/users.server';
+
+// Scripts can't easily hold on to the login cookie, so Basic auth with an
+// account's username and password is accepted as well.
+export const authenticate = async (
+  request: Request,
+  env: Env,
+): Promise<SessionUser | null> => {
+  const sessionUser = await getUserSession(request, env);
+  if (sessionUser) return sessionUser;
+
+  const authorization = request.headers.get('Authorization');
+  if (!authorization?.startsWith('Basic ')) return null;
+
+  try {
+    const decoded = atob(authorization.slice('Basic '.length));
+    const separator = decoded.indexOf(':');
+    if (separator === -1) return null;
+    return await verifyCredentials(
+      env,
+      decoded.slice(0, separator),
+      decoded.slice(separator + 1),
+    );
+  } catch {
+    return null;
+  }
+};
+
+export const unauthorized = () =>
+  new Response('Unauthorized', {
+    status: 401,
+    headers: { 'WWW-Authenticate': 'Basic realm="MediaPeek"' },
+  });
@@ -0,0 +1,118 @@
+import {
+  HISTORY_USER_HEADER,
+  type HistoryEntry,
+  type HistorySummary,
+  MAX_HISTORY_ENTRIES,
+  toSummary,
+} from '../app/services/history';
+import { authenticate, unauthorized } from './auth';
+
+const json = (data: unknown) =>
+  new Response(JSON.stringify(data), {
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+
+const indexKey = (owner: string) => `history:${owner}`;
+const entryKey = (owner: string, id: string) => `history:${owner}:${id}`;
+
+const isHistoryEntry = (value: unknown): value is HistoryEntry => {
+  const entry = value as Partial<HistoryEntry> | null;
+  return (
+    typeof entry?.id === 'string' &&
+    typeof entry.filename === 'string' &&
+    typeof entry.createdAt === 'number' &&
+    typeof entry.analysis === 'object'
+  );
+};
+
+// /api/history      GET list, POST save (HEAD tells whether it's enabled)
+// /api/history/:id  GET entry, DELETE entry
+export async function handleHistoryRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  const user = await authenticate(request, env);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const store = env.HISTORY;
+  if (!store) {
+    // The client falls back to local storage, kept apart per user
+    return new Response('History store not configured', {
+      status: 501,
+      headers: { [HISTORY_USER_HEADER]: user.id },
+    });
+  }
+
+  const owner = user.id;
+  const url = new URL(request.url);
+  const id = decodeURIComponent(
+    url.pathname.slice('/api/history'.length).replace(/^\//, ''),
+  );
+
+  const readIndex = async () =>
+    (await store.get<HistorySummary[]>(indexKey(owner), 'json')) ?? [];
+
+  if (!id) {
+    if (request.method === 'HEAD') {
+      return new Response(null, { status: 204 });
+    }
+
+    if (request.method === 'GET') {
+      return json(await readIndex());
+    }
+
+    if (request.method === 'POST') {
+      let entry: unknown;
+      try {
+        entry = await request.json();
+      } catch {
+        return new Response('Invalid JSON body', { status: 400 });
+      }
+      if (!isHistoryEntry(entry)) {
+        return new Response('Invalid history entry', { status: 400 });
+      }
+
+      const index = [
+        toSummary(entry),
+        ...(await readIndex()).filter((item) => item.id !== entry.id),
+      ];
+      const dropped = index.splice(MAX_HISTORY_ENTRIES);
+
+      await store.put(entryKey(owner, entry.id), JSON.stringify(entry));
+      await store.put(indexKey(owner), JSON.stringify(index));
+      await Promise.all(
+        dropped.map((item) => store.delete(entryKey(owner, item.id))),
+      );
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: { Allow: 'GET, HEAD, POST' },
+    });
+  }
+
+  if (request.method === 'GET') {
+    const entry = await store.get(entryKey(owner, id), 'json');
+    return entry ? json(entry) : new Response('Not found', { status: 404 });
+  }
+
+  if (request.method === 'DELETE') {
+    await store.delete(entryKey(owner, id));
+    await store.put(
+      indexKey(owner),
+      JSON.stringify((await readIndex()).filter((item) => item.id !== id)),
+    );
+    return new Response(null, { status: 204 });
+  }
+
+  return new Response('Method not allowed', {
+    status: 405,
+    headers: { Allow: 'GET, DELETE' },
+  });
+}
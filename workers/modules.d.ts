@@ -0,0 +1,5 @@
+// The Cloudflare Vite plugin turns `.wasm` imports into compiled modules.
+declare module '*.wasm' {
+  const wasmModule: WebAssembly.Module;
+  export default wasmModule;
+}
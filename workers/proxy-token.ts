@@ -0,0 +1,64 @@
+// Signed, short-lived permission to proxy one URL, for callers that can't
+// send the session cookie. Format: "<userId>.<expires>.<signature>", where
+// the HMAC-SHA256 signature covers the user, the expiry and the URL.
+
+const TOKEN_TTL_SECONDS = 60 * 60;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const sign = async (secret: string, payload: string) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toBase64Url(
+    await crypto.subtle.sign('HMAC', key, encoder.encode(payload)),
+  );
+};
+
+export async function createProxyToken(
+  env: Env,
+  userId: string,
+  url: string,
+): Promise<{ token: string; expiresAt: number }> {
+  const expires = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS;
+  const signature = await sign(
+    env.SESSION_SECRET,
+    `${userId}.${expires}.${url}`,
+  );
+  return {
+    token: `${userId}.${expires}.${signature}`,
+    expiresAt: expires * 1000,
+  };
+}
+
+// Returns the user the token was issued to, or null if it's invalid for `url`
+export async function verifyProxyToken(
+  env: Env,
+  token: string,
+  url: string,
+): Promise<string | null> {
+  const [userId, expires, signature] = token.split('.');
+  if (!userId || !expires || !signature) return null;
+  if (Number(expires) * 1000 < Date.now()) return null;
+
+  const expected = await sign(
+    env.SESSION_SECRET,
+    `${userId}.${expires}.${url}`,
+  );
+  // Both are fixed-length base64url strings of the same HMAC size
+  let diff = expected.length ^ signature.length;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0 ? userId : null;
+}
@@ -0,0 +1,209 @@
+import {
+  FORWARDED_HEADERS,
+  UPSTREAM_HEADER_PREFIX,
+} from '../app/services/byte-source';
+import { getUserSession } from '../app/services/session.server';
+import { getUser, type SessionUser } from '../app/services/users.server';
+import { authenticate, unauthorized } from './auth';
+import { createProxyToken, verifyProxyToken } from './proxy-token';
+import { guardedFetch } from './upstream-guard';
+import {
+  consumeProxyUsage,
+  meterBody,
+  rangeBytes,
+  recordProxyUsage,
+} from './usage';
+
+// Either the login session or a token signed for this exact URL
+const authorizeProxy = async (
+  request: Request,
+  env: Env,
+  targetUrl: string,
+): Promise<SessionUser | null> => {
+  const token = new URL(request.url).searchParams.get('token');
+  if (token) {
+    const userId = await verifyProxyToken(env, token, targetUrl);
+    return userId ? getUser(env, userId) : null;
+  }
+  return getUserSession(request, env);
+};
+
+// GET /api/proxy-token?url=... issues a token for /resources/proxy
+export async function handleProxyTokenRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  const user = await authenticate(request, env);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const targetUrl = new URL(request.url).searchParams.get('url');
+  if (!targetUrl) {
+    return new Response("Missing 'url' query parameter", { status: 400 });
+  }
+
+  return new Response(
+    JSON.stringify(await createProxyToken(env, user.id, targetUrl)),
+    {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    },
+  );
+}
+
+export async function handleProxyRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  const url = new URL(request.url);
+  const targetUrl = url.searchParams.get('url');
+
+  if (!['GET', 'HEAD'].includes(request.method)) {
+    return new Response('Method not allowed', {
+      status: 405,
+      headers: { Allow: 'GET, HEAD' },
+    });
+  }
+
+  if (!targetUrl) {
+    return new Response("Missing 'url' query parameter", { status: 400 });
+  }
+
+  const user = await authorizeProxy(request, env, targetUrl);
+  if (!user) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  try {
+    const upstreamUrl = new URL(targetUrl);
+    // Basic validation
+    if (!['http:', 'https:'].includes(upstreamUrl.protocol)) {
+      return new Response('Invalid protocol', { status: 400 });
+    }
+
+    const hostname = upstreamUrl.hostname.toLowerCase();
+    const knownBytes =
+      request.method === 'GET' ? rangeBytes(request.headers.get('Range')) : 0;
+    const limited = await consumeProxyUsage(env, user.id, hostname, {
+      requests: 1,
+      bytes: knownBytes ?? 0,
+    });
+    if (limited) return limited;
+
+    const upstreamHeaders = new Headers();
+
+    // Forward key headers
+    const allowedReqHeaders = [
+      'Range',
+      'User-Agent',
+      'Accept',
+      'Accept-Encoding',
+    ];
+    for (const header of allowedReqHeaders) {
+      const val = request.headers.get(header);
+      if (val) upstreamHeaders.set(header, val);
+    }
+
+    // User-supplied credentials for this upstream only. Never logged; the
+    // guarded fetch drops them if a redirect leaves the origin.
+    let hasCredentials = false;
+    for (const header of FORWARDED_HEADERS) {
+      const val = request.headers.get(`${UPSTREAM_HEADER_PREFIX}${header}`);
+      if (val) {
+        upstreamHeaders.set(header, val);
+        hasCredentials = true;
+      }
+    }
+
+    // Always set a default User-Agent if none provided, to avoid blocking
+    if (!upstreamHeaders.has('User-Agent')) {
+      upstreamHeaders.set('User-Agent', 'MediaPeek/1.0 (Cloudflare Worker)');
+    }
+
+    const upstreamResponse = await guardedFetch(
+      upstreamUrl.toString(),
+      {
+        method: request.method,
+        headers: upstreamHeaders,
+        // Stop pulling the upstream body once the client goes away
+        signal: request.signal,
+      },
+      env,
+    );
+
+    // Unbounded GETs, and ranged ones the upstream answered with the whole
+    // file, are charged what actually goes out beyond the range paid for.
+    // Not Content-Length: streaming readers cancel long before the end.
+    let body: ReadableStream<Uint8Array> | null = upstreamResponse.body;
+    const fullBody = knownBytes === null || upstreamResponse.status !== 206;
+    if (request.method === 'GET' && upstreamResponse.ok && fullBody && body) {
+      const prepaid = knownBytes ?? 0;
+      body = meterBody(body, (bytes) =>
+        recordProxyUsage(env, user.id, hostname, {
+          requests: 0,
+          bytes: Math.max(0, bytes - prepaid),
+        }),
+      );
+    }
+
+    // Create response headers to forward
+    const responseHeaders = new Headers();
+
+    // Copy upstream headers but filter out hop-by-hop or problematic ones
+    const skipHeaders = [
+      'content-encoding', // Let the worker/browser handle this
+      'access-control-allow-origin', // Same-origin only
+      'set-cookie', // Upstream cookies must not land on our origin
+      'transfer-encoding',
+      'connection',
+      'keep-alive',
+    ];
+
+    for (const [key, value] of upstreamResponse.headers.entries()) {
+      if (!skipHeaders.includes(key.toLowerCase())) {
+        responseHeaders.set(key, value);
+      }
+    }
+
+    if (hasCredentials) {
+      responseHeaders.set('Cache-Control', 'private, no-store');
+    }
+
+    // Upstream bytes are served from our origin, next to the session cookie.
+    // Opened directly they must never render or run as a page here; the
+    // filename parameters stay for file type detection.
+    responseHeaders.set(
+      'Content-Security-Policy',
+      "sandbox; default-src 'none'",
+    );
+    responseHeaders.set('X-Content-Type-Options', 'nosniff');
+    const dispositionParams = (
+      upstreamResponse.headers.get('Content-Disposition') ?? ''
+    )
+      .split(';')
+      .map((part) => part.trim())
+      .filter((part) => part.includes('='));
+    responseHeaders.set(
+      'Content-Disposition',
+      ['attachment', ...dispositionParams].join('; '),
+    );
+
+    // The client-side (byte-source.ts) logic handles the 200 vs 206 check and
+    // aborts if the upstream ignored the Range header.
+    return new Response(body, {
+      status: upstreamResponse.status,
+      statusText: upstreamResponse.statusText,
+      headers: responseHeaders,
+    });
+  } catch (error) {
+    return new Response(
+      `Proxy error: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import {
+  createShare,
+  MAX_EXPIRY_SECONDS,
+  MIN_EXPIRY_SECONDS,
+  revokeShare,
+  type ShareOptions,
+} from '../app/services/share.server';
+import { authenticate, unauthorized } from './auth';
+
+// NaN, Infinity or a TTL under its minimum make the KV put throw
+const isExpiry = (value: unknown) =>
+  typeof value === 'number' &&
+  Number.isFinite(value) &&
+  value >= MIN_EXPIRY_SECONDS &&
+  value <= MAX_EXPIRY_SECONDS;
+
+const isShareOptions = (value: unknown): value is ShareOptions => {
+  const options = value as Partial<ShareOptions> | null;
+  return (
+    typeof options?.name === 'string' &&
+    typeof options.isPublic === 'boolean' &&
+    (options.expiresIn === null || isExpiry(options.expiresIn)) &&
+    typeof options.analysis?.object === 'object' &&
+    typeof options.analysis.reports === 'object'
+  );
+};
+
+// /api/share      POST creates a link for a report
+// /api/share/:id  DELETE revokes it
+export async function handleShareRequest(
+  request: Request,
+  env: Env,
+): Promise<Response> {
+  const user = await authenticate(request, env);
+  if (!user) {
+    return unauthorized();
+  }
+
+  const store = env.SHARES;
+  if (!store) {
+    return new Response('Sharing is not configured', { status: 501 });
+  }
+
+  const owner = user.id;
+  const url = new URL(request.url);
+  const id = decodeURIComponent(
+    url.pathname.slice('/api/share'.length).replace(/^\//, ''),
+  );
+
+  if (!id && request.method === 'POST') {
+    let options: unknown;
+    try {
+      options = await request.json();
+    } catch {
+      return new Response('Invalid JSON body', { status: 400 });
+    }
+    if (!isShareOptions(options)) {
+      return new Response('Invalid share request', { status: 400 });
+    }
+
+    const share = await createShare(store, owner, options);
+    return new Response(
+      JSON.stringify({
+        id: share.id,
+        url: new URL(`/r/${share.id}`, request.url).toString(),
+        expiresAt: share.expiresAt,
+      }),
+      {
+        status: 201,
+        headers: { 'Content-Type': 'application/json; charset=utf-8' },
+      },
+    );
+  }
+
+  if (id && request.method === 'DELETE') {
+    return (await revokeShare(store, owner, id))
+      ? new Response(null, { status: 204 })
+      : new Response('Not found', { status: 404 });
+  }
+
+  return new Response('Method not allowed', {
+    status: 405,
+    headers: { Allow: id ? 'DELETE' : 'POST' },
+  });
+}
@@ -0,0 +1,209 @@
+// Keeps the proxy (and the server-side analysis) from being pointed at
+// anything it shouldn't reach: private networks, loopback, link-local, and
+// hosts outside the configured allow/deny lists. Checked again on every
+// redirect hop.
+
+const MAX_REDIRECTS = 5;
+const DNS_CACHE_MS = 5 * 60 * 1000;
+const DOH_ENDPOINT = 'https://cloudflare-dns.com/dns-query';
+
+// [network, prefix length]
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local (cloud metadata lives here)
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+];
+
+const parseIPv4 = (address: string): number | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+};
+
+const isBlockedIPv4 = (address: string) => {
+  const ip = parseIPv4(address);
+  if (ip === null) return false;
+  return BLOCKED_IPV4.some(([network, bits]) => {
+    const size = 2 ** (32 - bits);
+    const start = parseIPv4(network)!;
+    return ip >= start && ip < start + size;
+  });
+};
+
+const isBlockedIPv6 = (address: string) => {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, '');
+  if (ip === '::' || ip === '::1') return true;
+  // IPv4-mapped (::ffff:10.0.0.1) and the hex form URL parsing produces
+  const mapped = ip.match(
+    /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/,
+  );
+  if (mapped) {
+    if (mapped[1]) return isBlockedIPv4(mapped[1]);
+    const high = parseInt(mapped[2], 16);
+    const low = parseInt(mapped[3], 16);
+    return isBlockedIPv4(
+      [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'),
+    );
+  }
+  const first = parseInt(ip.split(':')[0] || '0', 16);
+  return (
+    (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+};
+
+const isIpLiteral = (hostname: string) =>
+  parseIPv4(hostname) !== null || hostname.includes(':');
+
+const isBlockedAddress = (address: string) =>
+  address.includes(':') ? isBlockedIPv6(address) : isBlockedIPv4(address);
+
+// Comma-separated host patterns; "*.example.com" also matches example.com
+const parseHostList = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+const matchesHost = (hostname: string, pattern: string) => {
+  if (pattern.startsWith('*.')) {
+    const domain = pattern.slice(2);
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  }
+  return hostname === pattern;
+};
+
+const dnsCache = new Map<string, { blocked: boolean; expires: number }>();
+
+// A public hostname can still point at a private address, so look at what
+// it resolves to as well.
+const resolvesToBlockedAddress = async (hostname: string) => {
+  const cached = dnsCache.get(hostname);
+  if (cached && cached.expires > Date.now()) return cached.blocked;
+
+  const lookups = await Promise.all(
+    ['A', 'AAAA'].map(async (type) => {
+      const response = await fetch(
+        `${DOH_ENDPOINT}?name=${encodeURIComponent(hostname)}&type=${type}`,
+        { headers: { Accept: 'application/dns-json' } },
+      );
+      if (!response.ok) {
+        throw new Error(`DNS lookup failed: ${response.status}`);
+      }
+      const { Answer = [] } = await response.json<{
+        Answer?: { type: number; data: string }[];
+      }>();
+      // 1 = A, 28 = AAAA; CNAMEs are followed by the resolver
+      return Answer.filter((record) => record.type === 1 || record.type === 28);
+    }),
+  );
+
+  const blocked = lookups
+    .flat()
+    .some((record) => isBlockedAddress(record.data));
+  dnsCache.set(hostname, { blocked, expires: Date.now() + DNS_CACHE_MS });
+  return blocked;
+};
+
+// Returns why the URL may not be fetched, or null when it's fine
+export async function checkUpstreamUrl(
+  target: URL,
+  env: Env,
+): Promise<string | null> {
+  if (!['http:', 'https:'].includes(target.protocol)) {
+    return 'Invalid protocol';
+  }
+  if (target.username || target.password) {
+    return 'Credentials in URLs are not allowed';
+  }
+
+  const hostname = target.hostname.toLowerCase().replace(/\.$/, '');
+
+  const denied = parseHostList(env.PROXY_BLOCKED_HOSTS);
+  if (denied.some((pattern) => matchesHost(hostname, pattern))) {
+    return `Host ${hostname} is blocked`;
+  }
+  const allowed = parseHostList(env.PROXY_ALLOWED_HOSTS);
+  if (
+    allowed.length > 0 &&
+    !allowed.some((pattern) => matchesHost(hostname, pattern))
+  ) {
+    return `Host ${hostname} is not on the allowlist`;
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost')) {
+    return 'Private network destinations are not allowed';
+  }
+  if (isIpLiteral(hostname)) {
+    return isBlockedAddress(hostname)
+      ? 'Private network destinations are not allowed'
+      : null;
+  }
+
+  try {
+    return (await resolvesToBlockedAddress(hostname))
+      ? 'Private network destinations are not allowed'
+      : null;
+  } catch {
+    return `Could not resolve ${hostname}`;
+  }
+}
+
+const blocked = (reason: string) =>
+  // The reason travels in the status text so clients can show it as is
+  new Response(reason, { status: 403, statusText: reason });
+
+// fetch() with the checks above applied to the URL and to every redirect.
+// Blocked requests come back as a 403 response rather than an exception.
+// Authorization and Cookie headers are dropped on cross-origin redirects.
+export async function guardedFetch(
+  url: string,
+  init: RequestInit,
+  env: Env,
+): Promise<Response> {
+  let target = new URL(url);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const reason = await checkUpstreamUrl(target, env);
+    if (reason) return blocked(reason);
+
+    const response = await fetch(target.toString(), {
+      ...init,
+      redirect: 'manual',
+    });
+
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+    await response.body?.cancel();
+    const next = new URL(location, target);
+    // Like browsers, don't hand credentials to another origin
+    if (next.origin !== target.origin && init.headers) {
+      const headers = new Headers(init.headers);
+      headers.delete('Authorization');
+      headers.delete('Cookie');
+      init = { ...init, headers };
+    }
+    target = next;
+  }
+
+  return new Response('Too many redirects', {
+    status: 502,
+    statusText: 'Too many redirects',
+  });
+}
@@ -0,0 +1,286 @@
+import { DurableObject } from 'cloudflare:workers';
+
+import type { UpstreamFetch } from '../app/services/byte-source';
+import {
+  getUsageCounter,
+  hostUsageKey,
+  type UsageAmount,
+  type UsageLimits,
+  type UsageSnapshot,
+  userUsageKey,
+} from '../app/services/usage.server';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const MiB = 1024 * 1024;
+
+// Overridable with the PROXY_LIMITS variable, same shape, any subset
+const DEFAULT_LIMITS: Record<'user' | 'host', UsageLimits> = {
+  user: {
+    perMinute: { requests: 300, bytes: 200 * MiB },
+    perDay: { requests: 10_000, bytes: 5 * 1024 * MiB },
+  },
+  host: {
+    perMinute: { requests: 600, bytes: 500 * MiB },
+    perDay: { requests: 50_000, bytes: 20 * 1024 * MiB },
+  },
+};
+
+type PartialLimits = Partial<
+  Record<
+    'user' | 'host',
+    Partial<Record<keyof UsageLimits, Partial<UsageAmount>>>
+  >
+>;
+
+export const getProxyLimits = (env: Env) => {
+  let overrides: PartialLimits = {};
+  try {
+    overrides = env.PROXY_LIMITS ? JSON.parse(env.PROXY_LIMITS) : {};
+  } catch {
+    console.error('Ignoring PROXY_LIMITS: not valid JSON');
+  }
+  const merge = (subject: 'user' | 'host'): UsageLimits => ({
+    perMinute: {
+      ...DEFAULT_LIMITS[subject].perMinute,
+      ...overrides[subject]?.perMinute,
+    },
+    perDay: {
+      ...DEFAULT_LIMITS[subject].perDay,
+      ...overrides[subject]?.perDay,
+    },
+  });
+  return { user: merge('user'), host: merge('host') };
+};
+
+interface Window extends UsageAmount {
+  // Epoch milliseconds the window started at
+  start: number;
+}
+
+interface StoredUsage {
+  minute: Window;
+  day: Window;
+  hosts: Record<string, UsageAmount>;
+}
+
+export type CheckResult =
+  | { allowed: true }
+  | { allowed: false; retryAfter: number; reason: string };
+
+const formatMiB = (bytes: number) => `${Math.round(bytes / MiB)} MB`;
+
+const emptyWindow = (start: number): Window => ({
+  start,
+  requests: 0,
+  bytes: 0,
+});
+
+// Fixed windows, aligned to the minute and the UTC day
+export class UsageCounter extends DurableObject<Env> {
+  private usage: StoredUsage | null = null;
+
+  private async load(): Promise<StoredUsage> {
+    const now = Date.now();
+    const minuteStart = now - (now % MINUTE);
+    const dayStart = now - (now % DAY);
+
+    this.usage ??= (await this.ctx.storage.get<StoredUsage>('usage')) ?? {
+      minute: emptyWindow(minuteStart),
+      day: emptyWindow(dayStart),
+      hosts: {},
+    };
+    if (this.usage.minute.start !== minuteStart) {
+      this.usage.minute = emptyWindow(minuteStart);
+    }
+    if (this.usage.day.start !== dayStart) {
+      this.usage.day = emptyWindow(dayStart);
+      this.usage.hosts = {};
+    }
+    return this.usage;
+  }
+
+  private async add(usage: StoredUsage, amount: UsageAmount, host?: string) {
+    for (const window of [usage.minute, usage.day]) {
+      window.requests += amount.requests;
+      window.bytes += amount.bytes;
+    }
+    if (host) {
+      const total = (usage.hosts[host] ??= { requests: 0, bytes: 0 });
+      total.requests += amount.requests;
+      total.bytes += amount.bytes;
+    }
+    await this.ctx.storage.put('usage', usage);
+  }
+
+  // Whether the amount still fits in both windows, otherwise when to retry.
+  // Counts nothing: the caller records once every counter involved agreed.
+  async check(
+    amount: UsageAmount,
+    limits: UsageLimits,
+    label: string,
+  ): Promise<CheckResult> {
+    const usage = await this.load();
+    const now = Date.now();
+
+    const checks = [
+      {
+        window: usage.minute,
+        limit: limits.perMinute,
+        span: MINUTE,
+        per: 'minute',
+      },
+      { window: usage.day, limit: limits.perDay, span: DAY, per: 'day' },
+    ];
+    for (const { window, limit, span, per } of checks) {
+      const retryAfter = Math.ceil((window.start + span - now) / 1000);
+      if (window.requests + amount.requests > limit.requests) {
+        return {
+          allowed: false,
+          retryAfter,
+          reason: `Rate limit exceeded: ${limit.requests} requests per ${per} for ${label}`,
+        };
+      }
+      if (window.bytes + amount.bytes > limit.bytes) {
+        return {
+          allowed: false,
+          retryAfter,
+          reason: `Quota exceeded: ${formatMiB(limit.bytes)} per ${per} for ${label}`,
+        };
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  async record(amount: UsageAmount, host?: string) {
+    await this.add(await this.load(), amount, host);
+  }
+
+  async snapshot(): Promise<UsageSnapshot> {
+    const { minute, day, hosts } = await this.load();
+    return {
+      minute: { requests: minute.requests, bytes: minute.bytes },
+      day: { requests: day.requests, bytes: day.bytes },
+      hosts,
+    };
+  }
+}
+
+// Checks the user's and the upstream host's counters and counts the request
+// against both only if both allow it, so a throttled user doesn't drain the
+// host's budget. Null when the request may go ahead (or nothing is tracked),
+// otherwise the 429 to send back.
+export async function consumeProxyUsage(
+  env: Env,
+  userId: string,
+  hostname: string,
+  amount: UsageAmount,
+): Promise<Response | null> {
+  const userCounter = getUsageCounter(env, userUsageKey(userId));
+  const hostCounter = getUsageCounter(env, hostUsageKey(hostname));
+  if (!userCounter || !hostCounter) return null;
+
+  const limits = getProxyLimits(env);
+  const results = await Promise.all([
+    hostCounter.check(amount, limits.host, hostname),
+    userCounter.check(amount, limits.user, 'your account'),
+  ]);
+
+  for (const result of results) {
+    if (!result.allowed) {
+      const message = `${result.reason}. Try again in ${result.retryAfter}s.`;
+      return new Response(message, {
+        status: 429,
+        // The status text carries the message for HEAD requests too
+        statusText: message,
+        headers: { 'Retry-After': String(result.retryAfter) },
+      });
+    }
+  }
+  await recordProxyUsage(env, userId, hostname, amount);
+  return null;
+}
+
+export async function recordProxyUsage(
+  env: Env,
+  userId: string,
+  hostname: string,
+  amount: UsageAmount,
+) {
+  await Promise.all([
+    getUsageCounter(env, hostUsageKey(hostname))?.record(amount),
+    getUsageCounter(env, userUsageKey(userId))?.record(amount, hostname),
+  ]);
+}
+
+// Bytes a bounded "bytes=a-b" Range asks for; anything else is unknown
+// until the upstream answers.
+export const rangeBytes = (range: string | null) => {
+  const match = range?.match(/^bytes=(\d+)-(\d+)$/);
+  return match ? Number(match[2]) - Number(match[1]) + 1 : null;
+};
+
+// Counts what streams through, for bodies of unknown length. Reported once,
+// when the body ends or whoever reads it stops early.
+export const meterBody = (
+  body: ReadableStream<Uint8Array>,
+  onDone: (bytes: number) => Promise<void>,
+): ReadableStream<Uint8Array> => {
+  const reader = body.getReader();
+  let bytes = 0;
+  let reported = false;
+  const report = async () => {
+    if (reported) return;
+    reported = true;
+    await onDone(bytes);
+  };
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) {
+        controller.close();
+        await report();
+        return;
+      }
+      bytes += value.byteLength;
+      controller.enqueue(value);
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+      await report();
+    },
+  });
+};
+
+// Upstream fetches made by the server itself (the analyze API), charged to
+// the user's and the host's counters just like proxied ones
+export const meteredFetch =
+  (env: Env, userId: string, fetchUpstream: UpstreamFetch): UpstreamFetch =>
+  async (url, init) => {
+    const hostname = new URL(url).hostname.toLowerCase();
+    const isHead = init.method === 'HEAD';
+    const prepaid = isHead
+      ? 0
+      : rangeBytes(new Headers(init.headers).get('Range'));
+    const limited = await consumeProxyUsage(env, userId, hostname, {
+      requests: 1,
+      bytes: prepaid ?? 0,
+    });
+    if (limited) return limited;
+
+    const response = await fetchUpstream(url, init);
+    const rangeHonoured = prepaid !== null && response.status === 206;
+    if (isHead || rangeHonoured || !response.ok || !response.body) {
+      return response;
+    }
+    return new Response(
+      meterBody(response.body, (bytes) =>
+        recordProxyUsage(env, userId, hostname, {
+          requests: 0,
+          bytes: Math.max(0, bytes - (prepaid ?? 0)),
+        }),
+      ),
+      response,
+    );
+  };